@@ -1,15 +1,58 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GeminiService, StreamInput } from './services/geminiService';
-import { AppState, ResumeMetadata } from './types';
-import * as pdfjs from 'pdfjs-dist';
-import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { createProvider, loadProviderSettings, saveProviderSettings } from './services/providers';
+import { TransliterationProvider } from './services/transliterationProvider';
+import { ResumeStore } from './services/resumeStore';
+import { convertWithRetry, DEFAULT_RETRY_POLICY } from './services/retry';
+import { SCHEMES, DEFAULT_SCHEME, schemeFor } from './services/schemes';
+import { ACCEPTED_INPUTS, detectFormat, extractArchive, imageFileCanvas, isArchive, isPagedFormat } from './services/inputAdapters';
+import { loadPreprocessSettings, savePreprocessSettings, ScanCanvas } from './services/imagePreprocess';
+import { batchPerFrame } from './services/frameBatch';
+import { registerServiceWorker } from './services/serviceWorker';
+import { EXPORT_FORMATS } from './services/exporters';
+import { JobQueueStore } from './services/jobQueueStore';
+import { createZip } from './services/zip';
+import { addUsage, EMPTY_USAGE, estimateCost, formatCost, formatTokens, loadBudget, ModelPricing, pricingFor, saveBudget } from './services/usage';
+import { QUALITY_LABELS } from './services/qualityChecks';
+import { detectSource, LANGUAGES, languageFor } from './services/languages';
+import { readSharedText } from './services/quickHistory';
+import { ConversionSession, SessionEvent, SessionSettings } from './services/conversionSession';
+import { applyGlossary, loadGlossary, relevantEntries, saveGlossary } from './services/glossary';
+import { AppState, ExportFormat, GlossaryEntry, OcrMode, OutputScheme, PageRouting, PreprocessSettings, ProviderSettings, QualityIssue, QueueJob, ResumeMetadata, SourceLanguage, SourceScript, TokenUsage } from './types';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import ReviewEditor from './components/ReviewEditor';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import PreprocessPanel from './components/PreprocessPanel';
+import QuickConvertPanel from './components/QuickConvertPanel';
 
-pdfjs.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.mjs';
-
-const DEFAULT_CHUNK_SIZE_KB = 128; // Optimized for GB books
 const MAX_PREVIEW_CHUNKS = 30; // Aggressive memory management for mobile APKs
 
+// Each direction starts on its first scheme; the scheme list then offers the rest for that direction.
+const DIRECTIONS: { script: SourceScript; scheme: OutputScheme; label: string }[] = [
+  { script: 'arabic', scheme: DEFAULT_SCHEME, label: 'UR → ROMAN' },
+  { script: 'latin', scheme: 'urdu', label: 'ROMAN → UR' }
+];
+
+const OCR_MODES: { id: OcrMode; label: string }[] = [
+  { id: 'off', label: 'OFF' },
+  { id: 'auto', label: 'AUTO' },
+  { id: 'always', label: 'ALL' }
+];
+
+// Where the queue is in handing its current job to the converter: `start` waits one render so
+// processFile sees the job's file and settings, `running` watches the conversion status.
+type QueueStep = 'idle' | 'start' | 'running';
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     file: null,
@@ -20,51 +63,199 @@ const App: React.FC = () => {
       estimatedTimeRemaining: null,
       status: 'idle',
       chunksProcessed: 0,
+      failedAttempts: 0,
+      inputTokens: 0,
+      outputTokens: 0,
     },
     preview: [],
     error: null,
-    resumeData: null
+    resumeData: null,
+    skipped: [],
+    flagged: [],
+    routes: {}
   });
 
-  const [useOCR, setUseOCR] = useState(false);
+  const [ocrMode, setOcrMode] = useState<OcrMode>('auto');
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(loadPreprocessSettings);
+  const [showPreprocess, setShowPreprocess] = useState(false);
+  const [sharedText] = useState(() => readSharedText(window.location.search));
+  const [showQuickPad, setShowQuickPad] = useState(sharedText !== null);
+  const [useOffline, setUseOffline] = useState(false);
+  const [scheme, setScheme] = useState<OutputScheme>(DEFAULT_SCHEME);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
+  const [showGlossary, setShowGlossary] = useState(false);
   const [batchSize, setBatchSize] = useState(2);
+  const [concurrency, setConcurrency] = useState(2);
+  const [carryContext, setCarryContext] = useState(false);
+  const [language, setLanguage] = useState<SourceLanguage | 'auto'>('auto');
+  const [detectedSource, setDetectedSource] = useState<{ script: SourceScript; language: SourceLanguage | null } | null>(null);
   const [streamingText, setStreamingText] = useState("");
   const [currentOriginal, setCurrentOriginal] = useState("");
+  const [streamFrame] = useState(() => batchPerFrame<{ original: string; text: string }>(({ original, text }) => {
+    setStreamingText(text);
+    setCurrentOriginal(original);
+  }));
+  const [networkWait, setNetworkWait] = useState<'run' | 'queue' | null>(null); // What to resume once back online
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null); // Set when a new version is waiting
   const [totalItems, setTotalItems] = useState<number>(0);
   const [processedItems, setProcessedItems] = useState<number>(0);
-  
+
   const [rangeStart, setRangeStart] = useState<string>("");
   const [rangeEnd, setRangeEnd] = useState<string>("");
+  const [viewPage, setViewPage] = useState<string>("");
   const [isMinimized, setIsMinimized] = useState(false);
   const [autoScroll, setAutoScroll] = useState(true);
   const [showApkInfo, setShowApkInfo] = useState(false);
-  
-  const geminiRef = useRef<GeminiService | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx');
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [queueStep, setQueueStep] = useState<QueueStep>('idle');
+  const [queueRunning, setQueueRunning] = useState(false);
+  const [pricing, setPricing] = useState<ModelPricing | null>(null);
+  const [budgetInput, setBudgetInput] = useState(() => String(loadBudget() ?? ''));
+  const budget = parseFloat(budgetInput) > 0 ? parseFloat(budgetInput) : null; // USD per job
+  const [dryRun, setDryRun] = useState<TokenUsage | null>(null);
+  // The conversion itself; its events are mirrored into the state above.
+  const [session] = useState(() => new ConversionSession(typeof indexedDB === 'undefined' ? null : new ResumeStore(), event => onSessionEvent(event)));
+
+  const providerRef = useRef<TransliterationProvider | null>(null);
   const previewEndRef = useRef<HTMLDivElement>(null);
-  const finalChunksRef = useRef<string[]>([]);
-  const isPausedRef = useRef<boolean>(false);
-  const isRunningRef = useRef<boolean>(false);
+  const queueStoreRef = useRef<JobQueueStore | null>(null);
+  const jobsRef = useRef<QueueJob[]>([]);
+  const jobFilesRef = useRef(new Map<string, File>()); // Fallback when IndexedDB is unavailable
+  const jobOutputsRef = useRef(new Map<string, Blob>());
+  const queueRunningRef = useRef(false);
+
+  useEffect(() => {
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
+  }, []);
 
   useEffect(() => {
-    geminiRef.current = new GeminiService();
+    // Shared text has been read into the pad; a reload should not convert it again.
+    if (sharedText !== null) window.history.replaceState(null, '', window.location.pathname);
   }, []);
 
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    queueStoreRef.current = new JobQueueStore();
+    // A job that was running when the page closed continues from its checkpoint.
+    queueStoreRef.current.list()
+      .then(saved => setQueue(saved.map(job => job.status === 'running' ? { ...job, status: 'paused' } : job)))
+      .catch(err => console.warn('Queue restore failed:', err));
+  }, []);
+
+  useEffect(() => {
+    try {
+      providerRef.current = createProvider(providerSettings);
+      setPricing(pricingFor(providerRef.current.model));
+    } catch (err: any) {
+      providerRef.current = null;
+      setPricing(null);
+      setState(prev => ({ ...prev, error: err.message }));
+    }
+  }, [providerSettings]);
+
   useEffect(() => {
     if (autoScroll && previewEndRef.current) {
       previewEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
   }, [state.preview, streamingText, autoScroll]);
 
+  useEffect(() => {
+    const file = state.file;
+    const status = state.stats.status;
+    if (!file) { setDryRun(null); return; }
+    if (status !== 'idle' && status !== 'paused') return;
+    let cancelled = false;
+    session.estimate(file, sessionSettings())
+      .then(estimate => { if (!cancelled) setDryRun(estimate); })
+      .catch(err => console.warn('Dry-run estimate failed:', err));
+    return () => { cancelled = true; };
+  }, [state.file, state.stats.status, rangeStart, rangeEnd, ocrMode, batchSize, useOffline, scheme]);
+
+  const onSessionEvent = (event: SessionEvent) => {
+    switch (event.type) {
+      case 'status':
+        setState(prev => ({ ...prev, stats: { ...prev.stats, status: event.status } }));
+        break;
+      case 'progress':
+        setProcessedItems(event.processed);
+        setTotalItems(event.total);
+        setState(prev => ({
+          ...prev,
+          stats: {
+            ...prev.stats,
+            processedBytes: Math.floor((event.processed / Math.max(1, event.total)) * prev.stats.totalBytes),
+            estimatedTimeRemaining: event.eta,
+            chunksProcessed: session.chunks.length
+          }
+        }));
+        break;
+      case 'output':
+        setState(prev => ({ ...prev, preview: [...prev.preview, ...event.results].slice(-MAX_PREVIEW_CHUNKS) }));
+        break;
+      case 'stream':
+        streamFrame.push(event);
+        break;
+      case 'attempt-failed':
+        setState(prev => ({ ...prev, stats: { ...prev.stats, failedAttempts: prev.stats.failedAttempts + 1 } }));
+        break;
+      case 'skipped':
+        setState(prev => ({ ...prev, skipped: event.skipped }));
+        break;
+      case 'flagged':
+        setState(prev => ({ ...prev, flagged: event.flagged }));
+        break;
+      case 'routes':
+        setState(prev => ({ ...prev, routes: event.routes }));
+        break;
+      case 'usage':
+        setState(prev => ({ ...prev, stats: { ...prev.stats, ...event.usage } }));
+        break;
+      case 'source-detected':
+        setDetectedSource({ script: event.script, language: event.language });
+        break;
+      case 'network-lost':
+        setNetworkWait(queueRunningRef.current ? 'queue' : 'run');
+        break;
+      case 'error':
+        setState(prev => ({ ...prev, error: event.message }));
+        break;
+    }
+  };
+
+  // The controls as the session reads them; built per call so a run picks up the latest values.
+  const sessionSettings = (): SessionSettings => ({
+    provider: providerRef.current,
+    offline: useOffline,
+    scheme,
+    language,
+    glossary,
+    ocrMode,
+    preprocess,
+    batchSize,
+    concurrency,
+    carryContext,
+    rangeStart: parseInt(rangeStart) || undefined,
+    rangeEnd: parseInt(rangeEnd) || undefined,
+    budget
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (files.length > 1 || (files[0] && isArchive(files[0]))) {
+      enqueueFiles(files);
+      return;
+    }
+    const file = files[0];
     if (file) {
-      const isPdf = file.type === 'application/pdf' || file.name.endsWith('.pdf');
-      const isTxt = file.type === 'text/plain' || file.name.endsWith('.txt');
-      const isImg = file.type.startsWith('image/');
-
-      if (!isPdf && !isTxt && !isImg) {
-        setState(prev => ({ ...prev, error: 'File type not supported. Use PDF, TXT or Images.' }));
+      const format = detectFormat(file.name, file.type);
+      if (!format) {
+        setState(prev => ({ ...prev, error: 'File type not supported. Use PDF, TXT, DOCX, EPUB, HTML, RTF, TIFF or images.' }));
         return;
       }
 
@@ -73,216 +264,381 @@ const App: React.FC = () => {
         ...prev,
         file,
         stats: { ...prev.stats, totalBytes: file.size, status: 'idle' },
-        error: null
+        error: null,
+        resumeData: null
       }));
-      if (isPdf) setRangeStart("1");
+      if (isPagedFormat(format)) setRangeStart("1");
+      lookupCheckpoint(file);
     }
   };
 
+  const lookupCheckpoint = async (file: File) => {
+    const data = await session.open(file);
+    if (data && data.lastProcessedIndex > 0 && session.file === file) {
+      setState(prev => ({ ...prev, resumeData: data }));
+    }
+  };
+
+  const restoreCheckpoint = (data = state.resumeData) => {
+    if (!data) return;
+    const paged = isPagedFormat(detectFormat(data.fileName));
+    const done = data.lastProcessedIndex >= data.totalItems;
+    const restored = session.restore(data);
+    setOcrMode(restored.ocrMode);
+    if (restored.preprocess) setPreprocess(restored.preprocess);
+    setScheme(restored.scheme);
+    setDetectedSource(session.language ? { script: 'arabic', language: session.language } : null);
+    if (restored.rangeStart) setRangeStart(String(restored.rangeStart));
+    if (restored.rangeEnd) setRangeEnd(String(restored.rangeEnd));
+    setTotalItems(data.totalItems);
+    setProcessedItems(data.lastProcessedIndex);
+    const offset = Math.max(0, data.accumulatedContent.length - MAX_PREVIEW_CHUNKS);
+    setState(prev => ({
+      ...prev,
+      resumeData: null,
+      skipped: session.skipped,
+      flagged: session.flagged,
+      routes: session.routes,
+      preview: data.accumulatedContent.slice(offset).map((converted, i) => ({
+        original: `Restored ${paged ? 'page' : 'chunk'} #${session.chunkPages[offset + i] ?? offset + i + 1}`,
+        converted,
+        page: session.chunkPages[offset + i] ?? undefined
+      })),
+      stats: {
+        ...prev.stats,
+        chunksProcessed: data.accumulatedContent.length,
+        processedBytes: Math.floor((data.lastProcessedIndex / Math.max(1, data.totalItems)) * prev.stats.totalBytes),
+        estimatedTimeRemaining: done ? 0 : null,
+        ...session.usage
+      }
+    }));
+  };
+
+  const discardCheckpoint = () => {
+    session.clearCheckpoint();
+    setState(prev => ({ ...prev, resumeData: null }));
+  };
+
   const resetSession = () => {
-    abortControllerRef.current?.abort();
-    isRunningRef.current = false;
-    isPausedRef.current = false;
-    finalChunksRef.current = [];
+    session.reset();
+    streamFrame.cancel();
+    setNetworkWait(null);
     setStreamingText("");
     setCurrentOriginal("");
+    setDetectedSource(null);
     setProcessedItems(0);
     setTotalItems(0);
     setState(prev => ({
       ...prev,
       preview: [],
-      stats: { ...prev.stats, processedBytes: 0, chunksProcessed: 0, status: 'idle', estimatedTimeRemaining: null }
+      skipped: [],
+      flagged: [],
+      routes: {},
+      stats: { ...prev.stats, processedBytes: 0, chunksProcessed: 0, failedAttempts: 0, status: 'idle', estimatedTimeRemaining: null, ...EMPTY_USAGE }
     }));
   };
 
-  const stopConversion = () => resetSession();
-  const pauseConversion = () => {
-    isPausedRef.current = true;
-    setState(prev => ({ ...prev, stats: { ...prev.stats, status: 'paused' } }));
+  const stopConversion = () => {
+    session.clearCheckpoint();
+    resetSession();
   };
+  const pauseConversion = () => session.pause();
 
-  const exportToDocx = async () => {
-    if (!finalChunksRef.current.length) return;
+  const exportAs = async (format: ExportFormat) => {
+    if (!session.chunks.length || !state.file) return;
     try {
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: finalChunksRef.current.map(text => 
-            new Paragraph({
-              children: [new TextRun({ text: text.trim(), size: 24 })],
-              spacing: { after: 200 }
-            })
-          ),
-        }],
-      });
-      const blob = await Packer.toBlob(doc);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `Roman_${state.file?.name.replace(/\.[^/.]+$/, "")}.docx`;
-      a.click();
-      URL.revokeObjectURL(url);
-    } catch (err) {
-      setState(prev => ({ ...prev, error: "Word export failed." }));
+      const { blob, fileName } = await session.buildExport(format, sessionSettings());
+      saveBlob(blob, fileName);
+    } catch (err: any) {
+      const label = EXPORT_FORMATS.find(f => f.id === format)!.label;
+      setState(prev => ({ ...prev, error: `${label} export failed: ${err.message}` }));
     }
   };
 
+  const downloadQualityReport = () => {
+    if (!state.file) return;
+    const base = state.file.name.replace(/\.[^/.]+$/, "");
+    const lines = [`Quality report for ${state.file.name}`, `Scheme: ${schemeFor(scheme).label}`, '', ...session.qualityReport()];
+    saveBlob(new Blob([lines.join('\n') + '\n'], { type: 'text/plain;charset=utf-8' }), `Quality_${base}.txt`);
+  };
+
+  const applyPreprocess = (settings: PreprocessSettings) => {
+    savePreprocessSettings(settings);
+    setPreprocess(settings);
+    setShowPreprocess(false);
+  };
+
+  // Unprocessed page (or image) of the loaded file for the scan quality preview.
+  const loadPreprocessSample = async (page: number, settings: PreprocessSettings): Promise<ScanCanvas | null> => {
+    const file = state.file;
+    if (!file) return null;
+    const format = detectFormat(file.name, file.type);
+    if (format === 'image') return imageFileCanvas(file);
+    if (!isPagedFormat(format)) return null;
+    const doc = await session.openDocument(file);
+    return doc.renderScan ? doc.renderScan(Math.min(page, doc.pageCount), settings) : null;
+  };
+
+  const applyBudget = (value: string) => {
+    setBudgetInput(value);
+    saveBudget(parseFloat(value) > 0 ? parseFloat(value) : null);
+  };
+
+  const applyGlossaryEntries = (entries: GlossaryEntry[]) => {
+    saveGlossary(entries);
+    setGlossary(entries);
+  };
+
   const copyToClipboard = (text: string) => navigator.clipboard.writeText(text);
 
-  const pdfToImageBase64 = async (pdfDoc: any, pageNum: number): Promise<string> => {
-    const page = await pdfDoc.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 1.2 });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error("Canvas context init failed");
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-    await page.render({ canvasContext: context, viewport }).promise;
-    return canvas.toDataURL('image/jpeg', 0.5).split(',')[1];
+  // Streams a passage typed into the quick-convert pad. It runs beside any file conversion and
+  // is not checkpointed or counted in the job's stats.
+  const quickConvert = async (text: string, onChunk: (chunk: string) => void, signal: AbortSignal) => {
+    const provider = session.textProvider(sessionSettings());
+    const { latin, postProcess, sourceScript } = schemeFor(scheme);
+    const terms = latin ? relevantEntries(glossary, [text]) : [];
+    const source = sourceScript === 'arabic' ? (language === 'auto' ? detectSource(text)?.language ?? undefined : language) : undefined;
+    const raw = await convertWithRetry(provider, [text], {
+      signal,
+      request: { scheme, language: source, ...(terms.length ? { glossary: terms } : {}) },
+      shouldStop: () => false,
+      onChunk,
+      onRetry: (err, attempt) => console.warn(`Quick convert attempt ${attempt} failed:`, err.message),
+      policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 2 }
+    });
+    return raw === null ? null : applyGlossary(postProcess(raw), terms).text;
   };
 
-  const processFile = async () => {
-    if (!state.file || !geminiRef.current || isRunningRef.current) return;
-    isRunningRef.current = true;
-    isPausedRef.current = false;
-    abortControllerRef.current = new AbortController();
-    const startTime = Date.now();
-    setState(prev => ({ ...prev, stats: { ...prev.stats, status: 'processing', startTime }, error: null }));
+  const applyProviderSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setShowProviderSettings(false);
+  };
+
+  const processFile = () => {
+    if (!state.file || session.busy || !session.ready(sessionSettings())) return;
+    setState(prev => ({ ...prev, stats: { ...prev.stats, startTime: Date.now() }, error: null, resumeData: null }));
+    return session.run(sessionSettings());
+  };
 
+  const retrySkipped = () => {
+    if (!state.file || session.busy || !session.skipped.length || !session.ready(sessionSettings())) return;
+    setState(prev => ({ ...prev, error: null }));
+    return session.retrySkipped(sessionSettings());
+  };
+
+  const regenerateChunk = (index: number) => session.regenerate(index, sessionSettings());
+
+  const rerunPage = async (page: number) => {
+    const index = session.chunkPages.indexOf(page);
+    if (index < 0) return;
     try {
-      const isPdf = state.file.name.toLowerCase().endsWith('.pdf');
-      const isImg = state.file.type.startsWith('image/');
-
-      if (isImg) {
-        setTotalItems(1);
-        const base64 = await new Promise<string>((res) => {
-          const r = new FileReader();
-          r.onload = () => res((r.result as string).split(',')[1]);
-          r.readAsDataURL(state.file!);
-        });
-        setCurrentOriginal("Processing Image...");
-        let full = "";
-        for await (const chunk of geminiRef.current.convertStream([{ data: base64, mimeType: state.file.type }])) {
-          if (abortControllerRef.current.signal.aborted || isPausedRef.current) break;
-          setStreamingText(p => p + chunk);
-          full += chunk;
-        }
-        if (!isPausedRef.current && !abortControllerRef.current.signal.aborted) {
-          finalChunksRef.current = [full];
-          setProcessedItems(1);
-          updateProgress(1, startTime, "Image Source", full);
-        }
-      } else if (isPdf) {
-        const arrayBuffer = await state.file.arrayBuffer();
-        const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
-        const totalPages = pdf.numPages;
-        const start = rangeStart ? Math.max(1, parseInt(rangeStart)) : 1;
-        const end = rangeEnd ? Math.min(totalPages, parseInt(rangeEnd)) : totalPages;
-        setTotalItems(end);
-        let current = Math.max(start, processedItems + 1);
-
-        while (current <= end) {
-          if (abortControllerRef.current.signal.aborted || isPausedRef.current) break;
-          const currentBatchSize = Math.min(batchSize, end - current + 1);
-          const inputs: StreamInput[] = [];
-          const originals: string[] = [];
-
-          for (let i = 0; i < currentBatchSize; i++) {
-            const num = current + i;
-            if (useOCR) {
-              inputs.push({ data: await pdfToImageBase64(pdf, num), mimeType: 'image/jpeg' });
-              originals.push(`Page ${num} (OCR Scan)`);
-            } else {
-              const page = await pdf.getPage(num);
-              const text = (await page.getTextContent()).items.map((it: any) => it.str).join(' ');
-              if (text.trim()) { 
-                inputs.push(text); 
-                originals.push(text.slice(0, 300)); 
-              }
-            }
-          }
+      await regenerateChunk(index);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `Page ${page} re-run failed: ${err.message}` }));
+    }
+  };
 
-          if (inputs.length > 0) {
-            setStreamingText("");
-            setCurrentOriginal(originals.join("\n---\n"));
-            let resultText = "";
-            for await (const chunk of geminiRef.current.convertStream(inputs)) {
-              if (abortControllerRef.current.signal.aborted || isPausedRef.current) break;
-              setStreamingText(p => p + chunk);
-              resultText += chunk;
-            }
-            if (!isPausedRef.current && !abortControllerRef.current.signal.aborted) {
-              finalChunksRef.current.push(resultText);
-              updateProgress(current / end, startTime, originals[0], resultText);
-              current += currentBatchSize;
-              setProcessedItems(current - 1);
-            }
-          } else {
-            current++;
-            setProcessedItems(current - 1);
-          }
-        }
-      } else {
-        // Large Text files handling (GB support via slicing)
-        let offset = processedItems;
-        const total = state.file.size;
-        setTotalItems(total);
-        const sz = DEFAULT_CHUNK_SIZE_KB * 1024;
-        
-        while (offset < total) {
-          if (abortControllerRef.current.signal.aborted || isPausedRef.current) break;
-          const chunk = await state.file.slice(offset, offset + sz).text();
-          if (chunk.trim()) {
-            setStreamingText("");
-            setCurrentOriginal(chunk.slice(0, 400));
-            let res = "";
-            for await (const s of geminiRef.current.convertStream([chunk])) {
-              if (abortControllerRef.current.signal.aborted || isPausedRef.current) break;
-              setStreamingText(p => p + s);
-              res += s;
-            }
-            if (!isPausedRef.current && !abortControllerRef.current.signal.aborted) {
-              finalChunksRef.current.push(res);
-              offset += sz;
-              updateProgress(offset / total, startTime, chunk.slice(0, 100), res);
-              setProcessedItems(offset);
-            }
-          } else { 
-            offset += sz; 
-            setProcessedItems(offset); 
-          }
-        }
-      }
+  // --- Batch queue ---------------------------------------------------------------------------
 
-      if (!abortControllerRef.current.signal.aborted && !isPausedRef.current) {
-        setState(prev => ({ ...prev, stats: { ...prev.stats, status: 'completed', estimatedTimeRemaining: 0 } }));
-      }
+  const setQueue = (next: QueueJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  };
+
+  const updateJob = (id: string, patch: Partial<QueueJob>) => {
+    setQueue(jobsRef.current.map(job => job.id === id ? { ...job, ...patch } : job));
+    queueStoreRef.current?.update(id, patch).catch(err => console.warn('Queue write failed:', err));
+  };
+
+  // Adds dropped files to the queue; ZIP archives are unpacked into one job per supported file.
+  const enqueueFiles = async (files: File[]) => {
+    try {
+      const unpacked = (await Promise.all(files.map(f => isArchive(f) ? extractArchive(f) : Promise.resolve([f])))).flat();
+      const accepted = unpacked.filter(f => detectFormat(f.name, f.type));
+      if (!accepted.length) throw new Error('No supported files found.');
+      const now = Date.now();
+      const added = accepted.map((file, i): QueueJob => ({
+        id: `${now.toString(36)}-${i}-${Math.random().toString(36).slice(2, 8)}`,
+        fileName: file.name,
+        fileSize: file.size,
+        ocrMode,
+        preprocess,
+        format: exportFormat,
+        status: 'pending',
+        progress: 0,
+        addedAt: now + i
+      }));
+      added.forEach((job, i) => jobFilesRef.current.set(job.id, accepted[i]));
+      setQueue([...jobsRef.current, ...added]);
+      await queueStoreRef.current?.add(added.map((job, i) => ({ job, file: accepted[i] })));
+      const ignored = unpacked.length - accepted.length;
+      setState(prev => ({ ...prev, error: ignored ? `${ignored} unsupported file(s) were not queued.` : null }));
     } catch (err: any) {
-      setState(prev => ({ ...prev, error: `Critical System Error: ${err.message}`, stats: { ...prev.stats, status: 'error' } }));
-    } finally { 
-      isRunningRef.current = false; 
+      setState(prev => ({ ...prev, error: `Could not queue files: ${err.message}` }));
     }
   };
 
-  const updateProgress = (progress: number, startTime: number, original: string, converted: string) => {
-    const elap = (Date.now() - startTime) / 1000;
-    const rem = progress > 0 ? (elap / progress) - elap : 0;
-    setState(prev => ({
-      ...prev,
-      stats: { 
-        ...prev.stats, 
-        processedBytes: Math.floor(progress * prev.stats.totalBytes), 
-        estimatedTimeRemaining: rem, 
-        chunksProcessed: prev.stats.chunksProcessed + 1 
-      },
-      preview: [...prev.preview, { original, converted }].slice(-MAX_PREVIEW_CHUNKS),
-    }));
+  const jobFile = async (id: string) => jobFilesRef.current.get(id) ?? await queueStoreRef.current?.getFile(id);
+  const jobOutput = async (id: string) => jobOutputsRef.current.get(id) ?? await queueStoreRef.current?.getOutput(id);
+
+  // Loads the next waiting job into the converter with its own settings, picking up its
+  // checkpoint if it was interrupted. The queue effects below start it and collect the output.
+  const runNextJob = async () => {
+    const job = jobsRef.current.find(j => j.status === 'paused') ?? jobsRef.current.find(j => j.status === 'pending');
+    if (!job || !queueRunningRef.current) {
+      setQueueRunning(queueRunningRef.current = false);
+      return;
+    }
+    const file = await jobFile(job.id);
+    if (!file) {
+      updateJob(job.id, { status: 'failed', error: 'The source file is no longer stored. Add it again.' });
+      return runNextJob();
+    }
+    resetSession();
+    let saved: ResumeMetadata | null = await session.open(file);
+    // A pending job starts fresh; only a job the queue itself paused resumes.
+    if (job.status !== 'paused') {
+      saved = null;
+      await session.clearCheckpoint();
+    }
+    const paged = isPagedFormat(detectFormat(file.name, file.type));
+    setState(prev => ({ ...prev, file, stats: { ...prev.stats, totalBytes: file.size, status: 'idle' }, error: null, resumeData: null }));
+    setOcrMode(job.ocrMode);
+    setPreprocess(job.preprocess ?? loadPreprocessSettings());
+    setRangeStart(job.rangeStart ? String(job.rangeStart) : paged ? "1" : "");
+    setRangeEnd(job.rangeEnd ? String(job.rangeEnd) : "");
+    if (saved && saved.lastProcessedIndex > 0) restoreCheckpoint(saved);
+    updateJob(job.id, { status: 'running', error: undefined });
+    setActiveJobId(job.id);
+    setQueueStep('start');
+  };
+
+  const startQueue = () => {
+    setQueueRunning(queueRunningRef.current = true);
+    if (!activeJobId) runNextJob();
+    else if (state.stats.status === 'paused') processFile();
   };
 
+  const pauseQueue = () => {
+    setQueueRunning(queueRunningRef.current = false);
+    if (state.stats.status === 'processing') pauseConversion();
+  };
+
+  const finishJob = async (id: string) => {
+    try {
+      const job = jobsRef.current.find(j => j.id === id)!;
+      const { blob, fileName } = await session.buildExport(job.format, sessionSettings());
+      jobOutputsRef.current.set(id, blob);
+      await queueStoreRef.current?.saveOutput(id, blob);
+      const skipped = session.skipped.length;
+      updateJob(id, { status: 'done', progress: 1, outputName: fileName, error: skipped ? `${skipped} batch(es) skipped` : undefined });
+    } catch (err: any) {
+      updateJob(id, { status: 'failed', error: `Export failed: ${err.message}` });
+    }
+    setActiveJobId(null);
+    setQueueStep('idle');
+    runNextJob();
+  };
+
+  const removeJobs = (ids: string[]) => {
+    const removed = new Set(ids.filter(id => id !== activeJobId));
+    removed.forEach(id => { jobFilesRef.current.delete(id); jobOutputsRef.current.delete(id); });
+    setQueue(jobsRef.current.filter(job => !removed.has(job.id)));
+    queueStoreRef.current?.remove([...removed]).catch(err => console.warn('Queue write failed:', err));
+  };
+
+  const downloadJob = async (job: QueueJob) => {
+    const blob = await jobOutput(job.id);
+    if (blob && job.outputName) saveBlob(blob, job.outputName);
+    else updateJob(job.id, { status: 'failed', error: 'Output is no longer stored. Retry the job.' });
+  };
+
+  // Every finished output in one archive; clashing names get a numeric suffix.
+  const downloadAllJobs = async () => {
+    const used = new Set<string>();
+    const entries = [];
+    for (const job of jobsRef.current) {
+      const blob = job.status === 'done' && job.outputName ? await jobOutput(job.id) : undefined;
+      if (!blob) continue;
+      let name = job.outputName!;
+      for (let n = 2; used.has(name); n++) name = job.outputName!.replace(/(\.[^.]+)$/, ` (${n})$1`);
+      used.add(name);
+      entries.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    if (entries.length) saveBlob(createZip(entries), `Roman_batch_${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  useEffect(() => {
+    if (queueStep !== 'start') return;
+    setQueueStep('running');
+    // A restored checkpoint may already be complete; the status effect then exports it.
+    if (state.stats.status !== 'completed') processFile();
+  }, [queueStep]);
+
+  useEffect(() => {
+    if (queueStep !== 'running' || !activeJobId) return;
+    const status = state.stats.status;
+    if (status === 'completed') {
+      finishJob(activeJobId);
+    } else if (status === 'error') {
+      updateJob(activeJobId, { status: 'failed', error: state.error ?? 'Conversion failed' });
+      setActiveJobId(null);
+      setQueueStep('idle');
+      runNextJob();
+    } else if (status === 'paused') {
+      updateJob(activeJobId, { status: 'paused' });
+      setQueueRunning(queueRunningRef.current = false);
+    } else if (status === 'processing') {
+      updateJob(activeJobId, { status: 'running' });
+    } else if (status === 'idle') {
+      // Stopped by the user: the job goes back to the queue and the queue halts.
+      updateJob(activeJobId, { status: 'pending', progress: 0 });
+      setActiveJobId(null);
+      setQueueStep('idle');
+      setQueueRunning(queueRunningRef.current = false);
+    }
+  }, [state.stats.status, queueStep]);
+
+  useEffect(() => {
+    if (activeJobId && totalItems > 0) updateJob(activeJobId, { progress: Math.min(1, processedItems / totalItems) });
+  }, [processedItems, totalItems]);
+
+  // A run (or the queue) paused by a lost connection picks up where it stopped once it is back.
+  useEffect(() => {
+    if (!networkWait) return;
+    const resume = () => {
+      setNetworkWait(null);
+      if (networkWait === 'queue') startQueue();
+      else processFile();
+    };
+    window.addEventListener('online', resume);
+    return () => window.removeEventListener('online', resume);
+  }, [networkWait, state.file, state.stats.status, activeJobId]);
+
+  const activeScheme = schemeFor(scheme);
+  const sourceRtl = activeScheme.sourceScript === 'arabic';
+  // The script the leftover check looked for: the source language's, generic Perso-Arabic until it is known, or Roman.
+  const checkedLanguage = language === 'auto' ? detectedSource?.language : language;
+  const leftoverScript = !sourceRtl ? activeScheme.source : checkedLanguage ? languageFor(checkedLanguage).name : 'Perso-Arabic';
   const progressPercent = totalItems > 0 ? Math.min(100, Math.floor((processedItems / totalItems) * 100)) : 0;
 
   return (
     <div className="min-h-screen bg-[#0f172a] font-sans text-slate-200 overflow-x-hidden selection:bg-indigo-500/30">
+      {showReview && session.store && session.key && (
+        <ReviewEditor
+          store={session.store}
+          sessionKey={session.key}
+          total={session.chunks.length}
+          busy={state.stats.status === 'processing'}
+          sourceRtl={sourceRtl}
+          outputRtl={activeScheme.rtl}
+          onEdit={(index, text) => session.editChunk(index, text)}
+          onRegenerate={regenerateChunk}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
       {/* APK Info Modal */}
       {showApkInfo && (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
@@ -303,6 +659,25 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {(applyUpdate || networkWait) && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] w-[calc(100%-2rem)] max-w-md space-y-3">
+          {networkWait && (
+            <div className="flex items-center gap-3 bg-slate-900 border border-amber-500/40 px-5 py-4 rounded-2xl shadow-2xl text-xs font-bold text-amber-300">
+              <i className="fas fa-wifi"></i>
+              <span>Offline. The {networkWait === 'queue' ? 'queue' : 'conversion'} is paused and resumes when the connection returns.</span>
+            </div>
+          )}
+          {applyUpdate && (
+            <div className="flex items-center gap-3 bg-slate-900 border border-indigo-500/40 px-5 py-4 rounded-2xl shadow-2xl">
+              <i className="fas fa-cloud-download-alt text-indigo-400"></i>
+              <span className="flex-1 text-xs font-bold text-slate-200">A new version is available.</span>
+              <button onClick={() => setApplyUpdate(null)} className="px-3 py-2 text-[10px] font-black text-slate-400 hover:text-white tracking-widest">LATER</button>
+              <button onClick={applyUpdate} className="px-4 py-2 bg-indigo-600 text-white text-[10px] font-black rounded-xl tracking-widest active:scale-95">RELOAD</button>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className={`max-w-7xl mx-auto p-4 transition-all duration-700 ${isMinimized ? 'opacity-10 scale-90 blur-xl pointer-events-none' : 'opacity-100'}`}>
         <header className="flex flex-col md:flex-row items-center justify-between mb-10 gap-6 pt-4">
           <div className="flex items-center space-x-5">
@@ -319,6 +694,18 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center bg-slate-900/80 p-3 rounded-[2rem] border border-slate-700/50 space-x-3 backdrop-blur-2xl">
+             <button onClick={() => setShowProviderSettings(!showProviderSettings)} className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${showProviderSettings ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+               <i className="fas fa-sliders-h"></i>
+             </button>
+             <button onClick={() => setShowPreprocess(!showPreprocess)} title="Scan quality" className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${showPreprocess ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+               <i className="fas fa-image"></i>
+             </button>
+             <button onClick={() => setShowQuickPad(!showQuickPad)} title="Quick convert" className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${showQuickPad ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+               <i className="fas fa-bolt"></i>
+             </button>
+             <button onClick={() => setShowGlossary(!showGlossary)} title="Glossary" className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${showGlossary ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+               <i className="fas fa-book"></i>
+             </button>
              <button onClick={() => setShowApkInfo(true)} className="px-4 py-2 text-[10px] font-black text-indigo-400 uppercase tracking-widest hover:bg-indigo-500/10 rounded-xl transition-all border border-indigo-500/20">
                APK INFO
              </button>
@@ -351,6 +738,21 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Settings / Controls */}
           <div className="lg:col-span-3 space-y-6">
+            {showProviderSettings && (
+              <ProviderSettingsPanel settings={providerSettings} onSave={applyProviderSettings} />
+            )}
+
+            {showGlossary && <GlossaryPanel entries={glossary} onSave={applyGlossaryEntries} />}
+
+            {showPreprocess && (
+              <PreprocessPanel
+                settings={preprocess}
+                onSave={applyPreprocess}
+                canPreview={!!state.file && ['pdf', 'tiff', 'image'].includes(detectFormat(state.file.name, state.file.type) ?? '')}
+                loadSample={loadPreprocessSample}
+              />
+            )}
+
             <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-6">
               <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
                 <i className="fas fa-layer-group mr-3 text-indigo-500"></i> Buffer Input
@@ -358,15 +760,32 @@ const App: React.FC = () => {
               
               <div className="space-y-4">
                 <div className="relative group">
-                   <input type="file" onChange={handleFileChange} accept=".txt,.pdf,image/*" className="absolute inset-0 opacity-0 cursor-pointer z-10" />
+                   <input type="file" multiple onChange={handleFileChange} accept={ACCEPTED_INPUTS} disabled={!!activeJobId} className="absolute inset-0 opacity-0 cursor-pointer z-10" />
                    <div className={`p-6 border-2 border-dashed rounded-3xl text-center transition-all ${state.file ? 'bg-indigo-500/5 border-indigo-500/50' : 'bg-slate-800/30 border-slate-700'}`}>
                       <i className={`fas ${state.file ? 'fa-file-pdf text-indigo-400' : 'fa-upload text-slate-600'} text-4xl mb-3`}></i>
                       <p className="text-[11px] font-black text-slate-300 truncate px-2">{state.file ? state.file.name : 'UPLOAD BOOK (UP TO 2GB)'}</p>
-                      <p className="text-[9px] text-slate-600 mt-2">PDF, TXT, OCR-READY IMAGES</p>
+                      <p className="text-[9px] text-slate-600 mt-2">PDF, TXT, DOCX, EPUB, HTML, RTF, TIFF, IMAGES</p>
+                      <p className="text-[9px] text-slate-600">Several files or a ZIP go to the batch queue</p>
                    </div>
                 </div>
 
-                {state.file?.name.endsWith('.pdf') && (
+                {state.resumeData && state.stats.status === 'idle' && (
+                  <div className="p-5 bg-amber-500/5 rounded-3xl space-y-3 border border-amber-500/30">
+                    <p className="text-[9px] font-black text-amber-400 uppercase tracking-[0.2em]">Checkpoint Found</p>
+                    <p className="text-[11px] text-slate-300">
+                      {isPagedFormat(detectFormat(state.resumeData.fileName))
+                        ? `Resume from page ${state.resumeData.lastProcessedIndex + 1}`
+                        : `Resume from byte offset ${state.resumeData.lastProcessedIndex.toLocaleString()}`}
+                      <span className="text-slate-500"> ({state.resumeData.accumulatedContent.length} chunks saved)</span>
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      <button onClick={() => restoreCheckpoint()} className="py-2 bg-amber-500 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all">RESTORE</button>
+                      <button onClick={discardCheckpoint} className="py-2 bg-slate-800 text-slate-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all">DISCARD</button>
+                    </div>
+                  </div>
+                )}
+
+                {state.file && isPagedFormat(detectFormat(state.file.name, state.file.type)) && (
                   <div className="p-5 bg-slate-800/40 rounded-3xl space-y-4 border border-slate-700/30">
                     <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Processing Range</p>
                     <div className="grid grid-cols-2 gap-3">
@@ -378,39 +797,259 @@ const App: React.FC = () => {
                         <span className="text-[8px] text-slate-500 block mb-1">END</span>
                         <input type="number" placeholder="End" value={rangeEnd} onChange={e => setRangeEnd(e.target.value)} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none" />
                       </div>
+                      <div>
+                        <span className="text-[8px] text-slate-500 block mb-1">PAGES / REQUEST</span>
+                        <input type="number" min={1} max={10} value={batchSize} onChange={e => setBatchSize(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none" />
+                      </div>
+                      <div>
+                        <span className="text-[8px] text-slate-500 block mb-1">PARALLEL REQUESTS</span>
+                        <input type="number" min={1} max={8} value={concurrency} onChange={e => setConcurrency(Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none" />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="p-5 bg-slate-800/30 rounded-3xl border border-slate-700/50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-black text-slate-200">OUTPUT SCHEME</span>
+                    <div className="flex bg-slate-800 rounded-full p-1">
+                      {DIRECTIONS.map(d => (
+                        <button key={d.script} onClick={() => setScheme(d.scheme)} disabled={state.stats.status === 'processing' || state.stats.status === 'paused'} className={`px-2 py-1 text-[8px] font-black rounded-full transition-all disabled:opacity-40 ${activeScheme.sourceScript === d.script ? 'bg-indigo-600 text-white shadow-[0_0_15px_rgba(79,70,229,0.5)]' : 'text-slate-500'}`}>
+                          {d.label}
+                        </button>
+                      ))}
                     </div>
                   </div>
+                  <select value={scheme} onChange={e => setScheme(e.target.value as OutputScheme)} disabled={state.stats.status === 'processing' || state.stats.status === 'paused'} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none disabled:opacity-40">
+                    {Object.values(SCHEMES).filter(s => s.sourceScript === activeScheme.sourceScript).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                  </select>
+                </div>
+
+                {activeScheme.sourceScript === 'arabic' && (
+                  <div className="p-5 bg-slate-800/30 rounded-3xl border border-slate-700/50 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs font-black text-slate-200">SOURCE LANGUAGE</span>
+                      {language === 'auto' && detectedSource && (
+                        <span className={`text-[8px] font-black uppercase ${detectedSource.script === 'arabic' ? 'text-indigo-400' : 'text-amber-400'}`}>
+                          {detectedSource.language ? `Detected: ${languageFor(detectedSource.language).label}` : 'Looks like Roman text'}
+                        </span>
+                      )}
+                    </div>
+                    <select value={language} onChange={e => setLanguage(e.target.value as SourceLanguage | 'auto')} disabled={state.stats.status === 'processing' || state.stats.status === 'paused'} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none disabled:opacity-40">
+                      <option value="auto">Auto-detect from the first text</option>
+                      {Object.values(LANGUAGES).map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                    </select>
+                  </div>
                 )}
 
+                <div className="flex items-center justify-between p-5 bg-emerald-500/5 rounded-3xl border border-emerald-500/20">
+                  <div className="flex flex-col">
+                    <span className="text-xs font-black text-emerald-100">OFFLINE ENGINE</span>
+                    <span className="text-[8px] text-emerald-400/60 uppercase">Local rules for text input</span>
+                  </div>
+                  <button onClick={() => setUseOffline(!useOffline)} className={`w-14 h-7 rounded-full transition-all relative ${useOffline ? 'bg-emerald-600 shadow-[0_0_15px_rgba(16,185,129,0.5)]' : 'bg-slate-800'}`}>
+                    <div className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-all shadow-md ${useOffline ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between p-5 bg-slate-800/30 rounded-3xl border border-slate-700/50">
+                  <div className="flex flex-col">
+                    <span className="text-xs font-black text-slate-200">CONTEXT CARRY-OVER</span>
+                    <span className="text-[8px] text-slate-500 uppercase">{carryContext ? 'Consistent names, one request at a time' : 'Each chunk converted on its own'}</span>
+                  </div>
+                  <button onClick={() => setCarryContext(!carryContext)} className={`w-14 h-7 rounded-full transition-all relative ${carryContext ? 'bg-indigo-600 shadow-[0_0_15px_rgba(79,70,229,0.5)]' : 'bg-slate-800'}`}>
+                    <div className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-all shadow-md ${carryContext ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+
                 <div className="flex items-center justify-between p-5 bg-indigo-500/5 rounded-3xl border border-indigo-500/20">
                   <div className="flex flex-col">
                     <span className="text-xs font-black text-indigo-100">VISION OCR</span>
-                    <span className="text-[8px] text-indigo-400/60 uppercase">PDF -> Image Scan</span>
+                    <span className="text-[8px] text-indigo-400/60 uppercase">{ocrMode === 'auto' ? 'Scans unreadable pages' : ocrMode === 'always' ? 'Every page as image' : 'Text layer only'}</span>
+                  </div>
+                  <div className="flex bg-slate-800 rounded-full p-1">
+                    {OCR_MODES.map(m => (
+                      <button key={m.id} onClick={() => setOcrMode(m.id)} className={`px-2 py-1 text-[8px] font-black rounded-full transition-all ${ocrMode === m.id ? 'bg-indigo-600 text-white shadow-[0_0_15px_rgba(79,70,229,0.5)]' : 'text-slate-500'}`}>
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="p-5 bg-slate-800/30 rounded-3xl border border-slate-700/50 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-black text-slate-200">COST</span>
+                    <span className="text-[8px] text-slate-500 uppercase">{pricing ? `$${pricing.input} / $${pricing.output} per 1M tokens` : 'No list price for this model'}</span>
+                  </div>
+                  {dryRun && (state.stats.status === 'idle' || state.stats.status === 'paused') && (
+                    <p className={`text-[10px] font-mono ${budget !== null && (estimateCost(addUsage(dryRun, session.usage), pricing) ?? 0) > budget ? 'text-amber-400' : 'text-slate-400'}`}>
+                      Estimate: ~{formatTokens(dryRun.inputTokens)} in · ~{formatTokens(dryRun.outputTokens)} out · {formatCost(estimateCost(dryRun, pricing))}
+                    </p>
+                  )}
+                  {state.stats.inputTokens + state.stats.outputTokens > 0 && (
+                    <p className="text-[10px] font-mono text-indigo-400">
+                      Spent: {formatTokens(state.stats.inputTokens)} in · {formatTokens(state.stats.outputTokens)} out · {formatCost(estimateCost(state.stats, pricing))}
+                    </p>
+                  )}
+                  <div>
+                    <span className="text-[8px] text-slate-500 block mb-1">BUDGET PER JOB (USD)</span>
+                    <input type="number" min={0} step={0.5} placeholder="No limit" value={budgetInput} onChange={e => applyBudget(e.target.value)} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none" />
                   </div>
-                  <button onClick={() => setUseOCR(!useOCR)} className={`w-14 h-7 rounded-full transition-all relative ${useOCR ? 'bg-indigo-600 shadow-[0_0_15px_rgba(79,70,229,0.5)]' : 'bg-slate-800'}`}>
-                    <div className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-all shadow-md ${useOCR ? 'right-1' : 'left-1'}`}></div>
-                  </button>
                 </div>
               </div>
             </div>
 
+            {jobs.length > 0 && (
+              <BatchQueuePanel
+                jobs={jobs}
+                activeJobId={activeJobId}
+                running={queueRunning}
+                latin={schemeFor(scheme).latin}
+                onStart={startQueue}
+                onPause={pauseQueue}
+                onUpdate={updateJob}
+                onRemove={removeJobs}
+                onDownload={downloadJob}
+                onDownloadAll={downloadAllJobs}
+              />
+            )}
+
             <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800">
               <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-4">Export Final File</h2>
               <div className="grid grid-cols-2 gap-3">
-                <button onClick={exportToDocx} disabled={!finalChunksRef.current.length} className="flex flex-col items-center p-5 bg-slate-800/50 text-indigo-400 rounded-3xl border border-slate-700 hover:bg-slate-800 transition-all disabled:opacity-20 active:scale-95">
-                  <i className="fas fa-file-word text-2xl mb-2"></i>
-                  <span className="text-[10px] font-black">WORD</span>
+                <select value={exportFormat} onChange={e => setExportFormat(e.target.value as ExportFormat)} className="col-span-2 w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none">
+                  {EXPORT_FORMATS.map(f => (
+                    <option key={f.id} value={f.id} disabled={f.latinOnly && !schemeFor(scheme).latin}>{f.label}</option>
+                  ))}
+                </select>
+                <button onClick={() => exportAs(exportFormat)} disabled={!session.chunks.length} className="flex flex-col items-center p-5 bg-slate-800/50 text-indigo-400 rounded-3xl border border-slate-700 hover:bg-slate-800 transition-all disabled:opacity-20 active:scale-95">
+                  <i className="fas fa-file-export text-2xl mb-2"></i>
+                  <span className="text-[10px] font-black">EXPORT</span>
                 </button>
-                <button onClick={() => copyToClipboard(finalChunksRef.current.join("\n\n"))} disabled={!finalChunksRef.current.length} className="flex flex-col items-center p-5 bg-slate-800/50 text-slate-400 rounded-3xl border border-slate-700 hover:bg-slate-800 transition-all disabled:opacity-20 active:scale-95">
+                <button onClick={() => copyToClipboard(session.stitchedChunks(sessionSettings()).filter(t => t.trim()).join("\n\n"))} disabled={!session.chunks.length} className="flex flex-col items-center p-5 bg-slate-800/50 text-slate-400 rounded-3xl border border-slate-700 hover:bg-slate-800 transition-all disabled:opacity-20 active:scale-95">
                   <i className="fas fa-copy text-2xl mb-2"></i>
                   <span className="text-[10px] font-black">COPY</span>
                 </button>
+                <button onClick={() => setShowReview(true)} disabled={!session.chunks.length || !session.key || !session.store} className="col-span-2 flex items-center justify-center space-x-3 p-4 bg-slate-800/50 text-amber-400 rounded-3xl border border-slate-700 hover:bg-slate-800 transition-all disabled:opacity-20 active:scale-95">
+                  <i className="fas fa-spell-check text-lg"></i>
+                  <span className="text-[10px] font-black">REVIEW &amp; EDIT</span>
+                </button>
               </div>
             </div>
+
+            {session.chunkPages.some(p => p !== null) && (
+              <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+                <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+                  <i className="fas fa-bookmark mr-3 text-indigo-500"></i> Page Navigator
+                </h2>
+                <input type="number" min={1} placeholder="Page #" value={viewPage} onChange={e => setViewPage(e.target.value)} className="w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none" />
+                {viewPage && (() => {
+                  const page = parseInt(viewPage);
+                  const index = session.chunkPages.indexOf(page);
+                  if (index < 0) return <p className="text-[10px] text-slate-600">Page {viewPage} has not been converted yet.</p>;
+                  return (
+                    <>
+                      <p className="text-[11px] text-indigo-100 leading-relaxed max-h-48 overflow-y-auto whitespace-pre-wrap">{session.chunks[index] || <span className="text-slate-600">(blank page)</span>}</p>
+                      <button onClick={() => rerunPage(page)} disabled={state.stats.status === 'processing'} className="w-full py-3 bg-slate-800 text-indigo-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">
+                        RE-RUN PAGE {page}
+                      </button>
+                    </>
+                  );
+                })()}
+              </div>
+            )}
+
+            {state.skipped.length > 0 && (
+              <div className="bg-red-500/5 rounded-[2.5rem] p-6 border border-red-500/20 space-y-4">
+                <h2 className="text-[10px] font-black text-red-400 uppercase tracking-widest flex items-center">
+                  <i className="fas fa-exclamation-triangle mr-3"></i> Skipped Batches ({state.skipped.length})
+                </h2>
+                <ul className="space-y-2 max-h-40 overflow-y-auto">
+                  {state.skipped.map(b => (
+                    <li key={b.chunkIndex} className="text-[10px] text-slate-400">
+                      <span className="font-black text-slate-300">{session.describeSource(b.source)}</span>
+                      <p className="text-slate-600 truncate" title={b.error}>{b.error}</p>
+                    </li>
+                  ))}
+                </ul>
+                <button onClick={retrySkipped} disabled={state.stats.status === 'processing'} className="w-full py-3 bg-red-500/80 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all disabled:opacity-30">
+                  RETRY SKIPPED
+                </button>
+              </div>
+            )}
+
+            {(state.flagged.length > 0 || state.stats.status === 'completed') && (() => {
+              const counts = new Map<QualityIssue['kind'], number>();
+              state.flagged.forEach(f => f.issues.forEach(i => counts.set(i.kind, (counts.get(i.kind) ?? 0) + 1)));
+              return (
+                <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+                  <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+                    <i className="fas fa-clipboard-check mr-3 text-indigo-500"></i> Quality Report
+                  </h2>
+                  {state.flagged.length ? (
+                    <>
+                      <p className="text-[10px] font-black text-amber-400">
+                        {[...counts].map(([kind, n]) => `${QUALITY_LABELS[kind].toUpperCase()} ${n}`).join(' · ')}
+                      </p>
+                      <ul className="space-y-2 max-h-40 overflow-y-auto">
+                        {state.flagged.map(f => (
+                          <li key={f.chunkIndex} className="text-[10px] text-slate-400">
+                            <span className="font-black text-slate-300">{session.describeSource(f.source)}</span>
+                            <p className="text-slate-600 truncate" title={f.issues.map(i => i.detail).join('\n')}>{f.issues.map(i => QUALITY_LABELS[i.kind]).join(', ')}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : (
+                    <p className="text-[10px] text-slate-400">All batches passed the checks for leftover {leftoverScript} script, length, chatty framing and loops.</p>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <button onClick={() => setShowReview(true)} disabled={!state.flagged.length || !session.key} className="py-2 bg-slate-800 text-amber-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">REVIEW</button>
+                    <button onClick={downloadQualityReport} className="py-2 bg-slate-800 text-indigo-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all">REPORT</button>
+                  </div>
+                </div>
+              );
+            })()}
+
+            {Object.keys(state.routes).length > 0 && (() => {
+              const entries = Object.entries<PageRouting>(state.routes).map(([page, r]) => ({ page: Number(page), ...r }));
+              const count = (route: string) => entries.filter(e => e.route === route).length;
+              const flagged = entries.filter(e => e.route !== 'text' || e.reason).sort((a, b) => a.page - b.page);
+              return (
+                <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+                  <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+                    <i className="fas fa-route mr-3 text-indigo-500"></i> Page Routing
+                  </h2>
+                  <p className="text-[10px] font-black text-slate-400">
+                    TEXT {count('text')} <span className="text-indigo-400 ml-3">OCR {count('ocr')}</span> <span className="text-slate-600 ml-3">EMPTY {count('empty')}</span>
+                  </p>
+                  {flagged.length > 0 && (
+                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                      {flagged.map(e => (
+                        <li key={e.page} className="flex justify-between text-[10px]">
+                          <span className="font-black text-slate-300">{session.unitLabel} {e.page}</span>
+                          <span className={e.route === 'ocr' ? 'text-indigo-400' : e.route === 'empty' ? 'text-slate-500' : 'text-amber-400'}>{e.route.toUpperCase()} · {e.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })()}
           </div>
 
           {/* Monitoring Feed */}
-          <div className="lg:col-span-9">
+          <div className="lg:col-span-9 space-y-6">
+            {showQuickPad && (
+              <QuickConvertPanel
+                scheme={scheme}
+                initialText={sharedText ?? undefined}
+                convert={quickConvert}
+                onCopy={copyToClipboard}
+                onClose={() => setShowQuickPad(false)}
+              />
+            )}
+
             <div className="bg-slate-900 rounded-[3.5rem] border-[14px] border-slate-800 shadow-3xl h-[750px] flex flex-col overflow-hidden relative group/feed">
                <div className="p-6 border-b border-white/5 bg-slate-800/30 flex justify-between items-center backdrop-blur-md">
                   <div className="flex items-center space-x-4">
@@ -432,19 +1071,22 @@ const App: React.FC = () => {
                     <div key={i} className="grid grid-cols-1 md:grid-cols-2 gap-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
                       <div className="bg-slate-800/20 p-6 rounded-[2rem] border border-white/5 shadow-inner">
                         <div className="flex justify-between items-center mb-4">
-                            <p className="text-slate-600 text-[9px] font-black uppercase tracking-widest">Urdu Segment</p>
-                            <span className="text-[8px] bg-slate-700/50 text-slate-500 px-2 py-0.5 rounded">ORIGINAL</span>
+                            <p className="text-slate-600 text-[9px] font-black uppercase tracking-widest">{activeScheme.source} Segment</p>
+                            <span className="text-[8px] bg-slate-700/50 text-slate-500 px-2 py-0.5 rounded">{p.page ? `PAGE ${p.page}` : 'ORIGINAL'}</span>
                         </div>
-                        <p className="text-slate-300 text-base leading-relaxed text-right" dir="rtl">{p.original}</p>
+                        <p className={`text-slate-300 text-base leading-relaxed ${sourceRtl ? 'text-right' : ''}`} dir={sourceRtl ? 'rtl' : 'ltr'}>{p.original}</p>
                       </div>
                       <div className="bg-indigo-500/5 p-6 rounded-[2rem] border border-indigo-500/10 group relative shadow-2xl">
                         <div className="flex justify-between items-center mb-4">
-                            <p className="text-indigo-500/60 text-[9px] font-black uppercase tracking-widest">Roman Output</p>
+                            <p className="text-indigo-500/60 text-[9px] font-black uppercase tracking-widest">
+                              {activeScheme.rtl ? 'Urdu' : 'Roman'} Output
+                              {p.usage && <span className="text-slate-600 normal-case ml-3" title="Tokens billed for this batch">{formatTokens(p.usage.inputTokens)} in · {formatTokens(p.usage.outputTokens)} out</span>}
+                            </p>
                             <button onClick={() => copyToClipboard(p.converted)} className="text-indigo-400 opacity-0 group-hover:opacity-100 transition-opacity p-2 hover:bg-indigo-500/10 rounded-lg">
                                 <i className="fas fa-copy"></i>
                             </button>
                         </div>
-                        <p className="text-indigo-100 text-base leading-relaxed font-medium">{p.converted}</p>
+                        <p className={`text-indigo-100 text-base leading-relaxed font-medium ${activeScheme.rtl ? 'text-right' : ''}`} dir={activeScheme.rtl ? 'rtl' : 'ltr'}>{p.converted}</p>
                       </div>
                     </div>
                   ))}
@@ -452,11 +1094,11 @@ const App: React.FC = () => {
                   {(streamingText || currentOriginal) && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-8 py-10 border-y border-white/5 bg-indigo-500/5 rounded-[2.5rem] px-6 shadow-2xl animate-pulse">
                        <div className="opacity-40 grayscale scale-95 blur-[0.5px]">
-                         <p className="text-indigo-200 text-sm leading-relaxed text-right" dir="rtl">{currentOriginal || 'Fetching packets...'}</p>
+                         <p className={`text-indigo-200 text-sm leading-relaxed ${sourceRtl ? 'text-right' : ''}`} dir={sourceRtl ? 'rtl' : 'ltr'}>{currentOriginal || 'Fetching packets...'}</p>
                        </div>
                        <div className="relative">
                          <div className="absolute -top-4 -left-4 bg-green-500 text-black text-[9px] px-3 py-1 rounded-full font-black animate-bounce shadow-lg shadow-green-500/20">UPLINK ACTIVE</div>
-                         <p className="text-green-300 text-sm leading-relaxed font-mono whitespace-pre-wrap">
+                         <p className="text-green-300 text-sm leading-relaxed font-mono whitespace-pre-wrap" dir={activeScheme.rtl ? 'rtl' : 'ltr'}>
                            {streamingText}
                            <span className="inline-block w-2.5 h-5 bg-green-400 ml-1 animate-pulse"></span>
                          </p>
@@ -482,7 +1124,14 @@ const App: React.FC = () => {
                  <div className="absolute bottom-10 left-10 right-10 bg-slate-900/95 backdrop-blur-3xl p-6 rounded-[2.5rem] border border-slate-700/50 shadow-2xl flex items-center justify-between animate-in slide-in-from-bottom-10">
                     <div className="flex-1 mr-12">
                        <div className="flex justify-between text-[10px] font-black text-slate-500 mb-3 tracking-widest">
-                          <span>TOTAL PACKET FLOW: {progressPercent}%</span>
+                          <span>
+                            TOTAL PACKET FLOW: {progressPercent}%
+                            {state.stats.failedAttempts > 0 && <span className="text-amber-500 ml-4">RETRIES: {state.stats.failedAttempts}</span>}
+                            {state.skipped.length > 0 && <span className="text-red-400 ml-4">SKIPPED: {state.skipped.length}</span>}
+                            {state.stats.inputTokens + state.stats.outputTokens > 0 && (
+                              <span className="text-slate-400 ml-4">TOKENS: {formatTokens(state.stats.inputTokens)} IN / {formatTokens(state.stats.outputTokens)} OUT · {formatCost(estimateCost(state.stats, pricing))}</span>
+                            )}
+                          </span>
                           <span>ETA: {state.stats.estimatedTimeRemaining ? `~${Math.ceil(state.stats.estimatedTimeRemaining / 60)}m ${Math.floor(state.stats.estimatedTimeRemaining % 60)}s` : '--:--'}</span>
                        </div>
                        <div className="h-2.5 bg-white/5 rounded-full overflow-hidden border border-white/5">
@@ -492,7 +1141,7 @@ const App: React.FC = () => {
                     <div className="text-right">
                        <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Processed</p>
                        <p className="text-indigo-400 font-mono font-black text-lg">
-                        {processedItems.toLocaleString()} <span className="text-[10px] text-slate-600">{state.file?.name.endsWith('.pdf') ? 'Pages' : 'Bytes'}</span>
+                        {processedItems.toLocaleString()} <span className="text-[10px] text-slate-600">{state.file && isPagedFormat(detectFormat(state.file.name, state.file.type)) ? `${session.unitLabel}s` : 'Bytes'}</span>
                        </p>
                     </div>
                  </div>
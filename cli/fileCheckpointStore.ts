@@ -0,0 +1,105 @@
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ResumeMetadata } from '../types';
+import { CheckpointStore, ChunkRecord, ChunkWrite } from '../services/resumeStore';
+
+const SESSION_FILE = 'session.json';
+const CHUNKS_FILE = 'chunks.jsonl';
+const ORIGINALS_FILE = 'originals.jsonl'; // Kept apart from chunks so resuming never reads page scans
+
+interface OriginalRecord { index: number; original?: string; thumbnail?: string; }
+
+/**
+ * Checkpoints on disk for the command-line tool, one folder per file fingerprint. Chunks are
+ * appended as JSON lines, so a checkpoint costs one batch's worth of writing however long the
+ * book; when an index is written twice, the later line wins.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private pending: Promise<void> = Promise.resolve(); // Writes are applied one at a time, in order
+
+  constructor(private dir: string) {}
+
+  async load(key: string): Promise<ResumeMetadata | null> {
+    await this.pending;
+    const meta = await this.readJson(path.join(this.folder(key), SESSION_FILE));
+    if (!meta || meta.key !== key) return null;
+    const { key: _key, ...session } = meta;
+    const chunks = [...(await this.chunks(key)).values()];
+    // Slots are dense: a batch that was skipped still owns its (empty) slot.
+    const size = chunks.reduce((max, c) => Math.max(max, c.index + 1), 0);
+    const accumulatedContent: string[] = new Array(size).fill('');
+    const accumulatedPages: (number | null)[] = new Array(size).fill(null);
+    for (const c of chunks) {
+      accumulatedContent[c.index] = c.edited ?? c.text;
+      accumulatedPages[c.index] = c.page ?? null;
+    }
+    return { ...session, accumulatedContent, accumulatedPages };
+  }
+
+  checkpoint(key: string, meta: Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages'>, chunks: ChunkWrite[] = []): Promise<void> {
+    const write = this.pending.then(() => this.write(key, meta, chunks));
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  async getChunk(key: string, index: number): Promise<ChunkRecord | undefined> {
+    await this.pending;
+    return (await this.chunks(key)).get(index);
+  }
+
+  async getOriginals(key: string): Promise<Map<number, { original?: string; thumbnail?: string }>> {
+    await this.pending;
+    const records = await this.readLines<OriginalRecord>(path.join(this.folder(key), ORIGINALS_FILE));
+    return new Map(records.map(({ index, original, thumbnail }) => [index, { original, thumbnail }]));
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.pending;
+    await rm(this.folder(key), { recursive: true, force: true });
+  }
+
+  // Chunks go first: a crash before the cursor moves only means the batch is converted again.
+  private async write(key: string, meta: Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages'>, chunks: ChunkWrite[]) {
+    const folder = this.folder(key);
+    await mkdir(folder, { recursive: true });
+    if (chunks.length) {
+      await appendFile(path.join(folder, CHUNKS_FILE), chunks.map(({ original: _o, thumbnail: _t, ...chunk }) => JSON.stringify({ review: 'pending', ...chunk, key }) + '\n').join(''));
+      const originals = chunks.filter(c => c.original !== undefined || c.thumbnail !== undefined);
+      if (originals.length) {
+        await appendFile(path.join(folder, ORIGINALS_FILE), originals.map(({ index, original, thumbnail }) => JSON.stringify({ index, original, thumbnail }) + '\n').join(''));
+      }
+    }
+    const target = path.join(folder, SESSION_FILE);
+    await writeFile(`${target}.tmp`, JSON.stringify({ ...meta, key, updatedAt: Date.now() }));
+    await rename(`${target}.tmp`, target);
+  }
+
+  private async chunks(key: string): Promise<Map<number, ChunkRecord>> {
+    const records = await this.readLines<ChunkRecord>(path.join(this.folder(key), CHUNKS_FILE));
+    return new Map(records.map(record => [record.index, record]));
+  }
+
+  private folder(key: string) {
+    return path.join(this.dir, key.slice(key.lastIndexOf(':') + 1));
+  }
+
+  private async readJson(file: string): Promise<any> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // A run killed mid-write can leave a partial last line; its batch is converted again on resume.
+  private async readLines<T>(file: string): Promise<T[]> {
+    const text = await readFile(file, 'utf8').catch(() => '');
+    return text.split('\n').flatMap(line => {
+      try {
+        return line ? [JSON.parse(line) as T] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
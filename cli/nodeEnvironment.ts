@@ -0,0 +1,45 @@
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import * as pdfjs from 'pdfjs-dist';
+import { setPdfAssetBase } from '../services/inputAdapters';
+
+// The pipeline is written against browser APIs. Under Node, pdf.js runs its worker from the
+// installed package, and the few DOM pieces the input adapters use come from optional packages:
+// `canvas` renders and encodes page scans (OCR, TIFF, photos) and `linkedom` parses DOCX, EPUB
+// and HTML. Both are looked up at runtime, so text-layer PDFs, TXT and RTF need neither.
+
+export interface NodeCapabilities {
+  canvas: boolean;
+  dom: boolean;
+}
+
+const optional = async (name: string): Promise<any> => {
+  try {
+    return await import(/* @vite-ignore */ name);
+  } catch {
+    return null;
+  }
+};
+
+export const prepareNodeEnvironment = async (): Promise<NodeCapabilities> => {
+  pdfjs.GlobalWorkerOptions.workerSrc = 'pdfjs-dist/build/pdf.worker.mjs';
+  setPdfAssetBase(path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json')) + path.sep);
+  // pdf.js logs font and structure warnings with console.log; stdout is kept for results.
+  console.log = console.error;
+
+  const scope = globalThis as any;
+  const canvas = await optional('canvas');
+  if (canvas) {
+    scope.document ??= {
+      createElement: (tag: string) => {
+        if (tag !== 'canvas') throw new Error(`<${tag}> elements are not available under Node.`);
+        return canvas.createCanvas(1, 1);
+      }
+    };
+    scope.ImageData ??= canvas.ImageData;
+    scope.createImageBitmap ??= async (blob: Blob) => canvas.loadImage(Buffer.from(await blob.arrayBuffer()));
+  }
+  const dom = await optional('linkedom');
+  if (dom) scope.DOMParser ??= dom.DOMParser;
+  return { canvas: !!canvas, dom: !!dom };
+};
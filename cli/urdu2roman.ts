@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+import { openAsBlob } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ExportFormat, OcrMode, OutputScheme, ProviderKind, SourceLanguage } from '../types';
+import { ConversionSession, SessionEvent, SessionSettings } from '../services/conversionSession';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS } from '../services/providers';
+import { LocalTransliterator } from '../services/localTransliterator';
+import { TransliterationProvider } from '../services/transliterationProvider';
+import { DEFAULT_SCHEME, SCHEMES } from '../services/schemes';
+import { LANGUAGES, languageFor } from '../services/languages';
+import { DEFAULT_PREPROCESS } from '../services/imagePreprocess';
+import { detectFormat, isPagedFormat } from '../services/inputAdapters';
+import { EXPORT_FORMATS } from '../services/exporters';
+import { parseGlossary } from '../services/glossary';
+import { estimateCost, formatCost, formatTokens, pricingFor } from '../services/usage';
+import { FileCheckpointStore } from './fileCheckpointStore';
+import { NodeCapabilities, prepareNodeEnvironment } from './nodeEnvironment';
+
+const USAGE = `Usage: urdu2roman convert <file...> [options]
+
+Converts each file in turn with the same pipeline as the app and writes the exports next to
+each other in the output folder.
+
+Options:
+  --pages <from-to>      Page or section range of paged documents, e.g. 10-50, 10- or -50
+  --ocr                  Send every page to the vision model as a scan (--ocr-mode always)
+  --ocr-mode <mode>      off, auto or always (default: auto)
+  --format <list>        Comma-separated export formats (default: docx)
+                         ${EXPORT_FORMATS.map(f => f.id).join(', ')}
+  --out <dir>            Folder for the exports (default: current folder)
+  --resume               Continue from the file's checkpoint instead of starting over
+  --cache-dir <dir>      Folder for checkpoints (default: .urdu2roman)
+  --scheme <id>          ${Object.keys(SCHEMES).join(', ')} (default: ${DEFAULT_SCHEME})
+  --language <id>        Source language for Perso-Arabic text: auto, ${Object.keys(LANGUAGES).join(', ')}
+                         (default: auto, detected from the first text)
+  --provider <kind>      gemini or openai (default: gemini)
+  --endpoint <url>       Base URL of an OpenAI-compatible server
+  --model <name>         Model name (default: the provider's)
+  --api-key <key>        API key (default: $GEMINI_API_KEY, or $OPENAI_API_KEY for openai)
+  --proxy <url>          Send Gemini requests through a urdu2roman proxy; --api-key is then
+                         your proxy token (default: $GEMINI_PROXY_URL and $GEMINI_PROXY_TOKEN)
+  --offline              Convert text with the local rules engine
+  --glossary <file>      Glossary as CSV or JSON
+  --batch-size <n>       Pages per request (default: 2)
+  --concurrency <n>      Requests in flight (default: 2)
+  --context              Carry the end of each chunk and the names used so far into the next
+                         request for consistent spellings; runs one request at a time
+  --budget <usd>         Pause a file once its estimated cost reaches this amount
+  --dry-run              Print the token and cost estimate and exit
+  --json                 Print progress as JSON lines on stdout
+  -h, --help             Show this help
+`;
+
+const FLAGS = {
+  pages: { type: 'string' },
+  ocr: { type: 'boolean' },
+  'ocr-mode': { type: 'string' },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  resume: { type: 'boolean' },
+  'cache-dir': { type: 'string' },
+  scheme: { type: 'string' },
+  language: { type: 'string' },
+  provider: { type: 'string' },
+  endpoint: { type: 'string' },
+  model: { type: 'string' },
+  'api-key': { type: 'string' },
+  proxy: { type: 'string' },
+  offline: { type: 'boolean' },
+  glossary: { type: 'string' },
+  'batch-size': { type: 'string' },
+  concurrency: { type: 'string' },
+  context: { type: 'boolean' },
+  budget: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof FLAGS; allowPositionals: true }>>['values'];
+
+// Bad arguments: reported with the usage hint and exit code 2.
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const DOM_FORMATS = ['docx', 'epub', 'html'];
+
+const log = (line: string) => process.stderr.write(line + '\n');
+
+const formatEta = (seconds: number | null) =>
+  seconds ? ` · ETA ${Math.floor(seconds / 60)}m ${Math.floor(seconds % 60)}s` : '';
+
+const parseRange = (value: string | undefined): { rangeStart?: number; rangeEnd?: number } => {
+  if (!value) return {};
+  const match = value.match(/^(\d*)-(\d*)$/) ?? value.match(/^(\d+)()$/);
+  if (!match || (!match[1] && !match[2])) throw new UsageError(`--pages takes a range such as 10-50, not "${value}".`);
+  const rangeStart = match[1] ? parseInt(match[1]) : undefined;
+  const rangeEnd = match[2] ? parseInt(match[2]) : value.includes('-') ? undefined : rangeStart;
+  if (rangeStart && rangeEnd && rangeEnd < rangeStart) throw new UsageError(`--pages ${value} ends before it starts.`);
+  return { rangeStart, rangeEnd };
+};
+
+const parseCount = (value: string | undefined, flag: string, fallback: number, max: number) => {
+  if (value === undefined) return fallback;
+  const n = parseInt(value);
+  if (!(n >= 1 && n <= max)) throw new UsageError(`--${flag} must be between 1 and ${max}.`);
+  return n;
+};
+
+const pick = <T extends string>(value: string | undefined, allowed: readonly T[], flag: string, fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${flag} must be one of ${allowed.join(', ')}.`);
+  return value as T;
+};
+
+const buildProvider = (flags: Flags): TransliterationProvider => {
+  const kind = pick<ProviderKind>(flags.provider, ['gemini', 'openai'], 'provider', 'gemini');
+  const proxyUrl = kind === 'gemini' ? flags.proxy ?? process.env.GEMINI_PROXY_URL ?? '' : '';
+  const envKey = kind === 'openai' ? process.env.OPENAI_API_KEY : proxyUrl ? process.env.GEMINI_PROXY_TOKEN : process.env.GEMINI_API_KEY;
+  const apiKey = flags['api-key'] ?? envKey ?? '';
+  // Offline runs of text files never reach the model, so they may go without one. With no key
+  // the SDK is not created at all, as it prints a warning about the missing key.
+  if (flags.offline && !apiKey && (kind === 'gemini' ? !proxyUrl : !flags.endpoint)) return new LocalTransliterator();
+  try {
+    return createProvider({
+      kind,
+      endpoint: flags.endpoint ?? DEFAULT_PROVIDER_SETTINGS.endpoint,
+      model: flags.model ?? '',
+      apiKey,
+      proxyUrl
+    });
+  } catch (err: any) {
+    if (flags.offline) return new LocalTransliterator();
+    throw new UsageError(err.message);
+  }
+};
+
+const buildSettings = async (flags: Flags): Promise<SessionSettings> => {
+  const glossary = flags.glossary ? parseGlossary(await readFile(flags.glossary, 'utf8'), flags.glossary) : [];
+  const budget = flags.budget === undefined ? null : parseFloat(flags.budget);
+  if (budget !== null && !(budget > 0)) throw new UsageError('--budget must be an amount in USD above zero.');
+  return {
+    provider: buildProvider(flags),
+    offline: !!flags.offline,
+    scheme: pick<OutputScheme>(flags.scheme, Object.keys(SCHEMES) as OutputScheme[], 'scheme', DEFAULT_SCHEME),
+    language: pick<SourceLanguage | 'auto'>(flags.language, ['auto', ...Object.keys(LANGUAGES) as SourceLanguage[]], 'language', 'auto'),
+    glossary,
+    ocrMode: flags.ocr ? 'always' : pick<OcrMode>(flags['ocr-mode'], ['off', 'auto', 'always'], 'ocr-mode', 'auto'),
+    preprocess: DEFAULT_PREPROCESS,
+    batchSize: parseCount(flags['batch-size'], 'batch-size', 2, 10),
+    concurrency: parseCount(flags.concurrency, 'concurrency', 2, 8),
+    carryContext: !!flags.context,
+    ...parseRange(flags.pages),
+    budget
+  };
+};
+
+// Settings for one file given what this Node install can do; throws when the file cannot be read at all.
+const settingsForFormat = (name: string, settings: SessionSettings, capabilities: NodeCapabilities): SessionSettings => {
+  const format = detectFormat(name);
+  if (!format) throw new Error('File type not supported. Use PDF, TXT, DOCX, EPUB, HTML, RTF, TIFF or images.');
+  if (DOM_FORMATS.includes(format) && !capabilities.dom) {
+    throw new Error(`Reading ${format.toUpperCase()} needs the optional linkedom package (npm install linkedom).`);
+  }
+  const scans = format === 'tiff' || format === 'image' || (format === 'pdf' && settings.ocrMode === 'always');
+  if (scans && !capabilities.canvas) throw new Error('Rendering scans needs the optional canvas package (npm install canvas).');
+  if (format === 'pdf' && settings.ocrMode === 'auto' && !capabilities.canvas) {
+    log(`${name}: pages without a usable text layer are skipped; install the canvas package to send them to OCR.`);
+    return { ...settings, ocrMode: 'off' };
+  }
+  return settings;
+};
+
+// Progress lines on stderr, or every event as a JSON line on stdout for scripts.
+const reporter = (name: string, json: boolean, session: () => ConversionSession) => (event: SessionEvent) => {
+  if (event.type === 'stream') return;
+  if (json) {
+    process.stdout.write(JSON.stringify({ file: name, ...event }) + '\n');
+    return;
+  }
+  switch (event.type) {
+    case 'progress': {
+      if (!event.total) return;
+      const percent = Math.floor((event.processed / event.total) * 100);
+      const unit = isPagedFormat(detectFormat(name)) ? session().unitLabel.toLowerCase() : 'byte';
+      log(`${name}: ${unit} ${event.processed.toLocaleString()} of ${event.total.toLocaleString()} (${percent}%)${formatEta(event.eta)}`);
+      break;
+    }
+    case 'source-detected':
+      log(`${name}: source looks like ${event.language ? languageFor(event.language).label : 'Roman text; use --scheme urdu to convert it'}`);
+      break;
+    case 'attempt-failed':
+      log(`${name}: request failed: ${event.error}`);
+      break;
+    case 'error':
+      log(`${name}: ${event.message}`);
+      break;
+  }
+};
+
+const convertFile = async (filePath: string, flags: Flags, baseSettings: SessionSettings, capabilities: NodeCapabilities): Promise<boolean> => {
+  const name = path.basename(filePath);
+  const formats = (flags.format ?? 'docx').split(',').map(f => f.trim()) as ExportFormat[];
+  let settings: SessionSettings;
+  try {
+    settings = settingsForFormat(name, baseSettings, capabilities);
+  } catch (err: any) {
+    log(`${name}: ${err.message}`);
+    return false;
+  }
+
+  const file = new File([await openAsBlob(filePath)], name);
+  const store = new FileCheckpointStore(flags['cache-dir'] ?? '.urdu2roman');
+  const session: ConversionSession = new ConversionSession(store, reporter(name, !!flags.json, () => session));
+  const saved = await session.open(file);
+  if (flags.resume && saved && saved.lastProcessedIndex > 0) {
+    // Output slots follow the checkpoint's page range and scheme, so those win over the flags.
+    const restored = session.restore(saved);
+    settings = { ...settings, scheme: restored.scheme, rangeStart: restored.rangeStart, rangeEnd: restored.rangeEnd };
+    log(`${name}: resuming after ${isPagedFormat(detectFormat(name)) ? `${session.unitLabel.toLowerCase()} ${saved.lastProcessedIndex}` : `byte ${saved.lastProcessedIndex.toLocaleString()}`}`);
+  } else {
+    await session.clearCheckpoint();
+  }
+
+  const pricing = pricingFor(settings.provider?.model);
+  if (flags['dry-run']) {
+    const estimate = await session.estimate(file, settings);
+    process.stdout.write(`${name}: ~${formatTokens(estimate.inputTokens)} in · ~${formatTokens(estimate.outputTokens)} out · ${formatCost(estimateCost(estimate, pricing))}\n`);
+    return true;
+  }
+
+  if (session.status !== 'completed') await session.run(settings);
+  if (session.usage.inputTokens + session.usage.outputTokens > 0) {
+    log(`${name}: ${formatTokens(session.usage.inputTokens)} in · ${formatTokens(session.usage.outputTokens)} out · ${formatCost(estimateCost(session.usage, pricing))}`);
+  }
+  if (session.status !== 'completed') {
+    if (session.status === 'paused') log(`${name}: paused; run again with --resume to continue.`);
+    return false;
+  }
+  if (session.skipped.length) log(`${name}: ${session.skipped.length} batch(es) skipped: ${session.skipped.map(b => session.describeSource(b.source)).join(', ')}`);
+  if (session.flagged.length) session.qualityReport().forEach(line => log(`${name}: ${line}`));
+
+  const outDir = flags.out ?? '.';
+  await mkdir(outDir, { recursive: true });
+  let exported = true;
+  for (const format of formats) {
+    try {
+      const { blob, fileName } = await session.buildExport(format, settings);
+      const target = path.join(outDir, fileName);
+      await writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+      if (!flags.json) process.stdout.write(target + '\n');
+    } catch (err: any) {
+      log(`${name}: ${format} export failed: ${err.message}`);
+      exported = false;
+    }
+  }
+  return exported;
+};
+
+const main = async () => {
+  const { values: flags, positionals } = parseArgs({ options: FLAGS, allowPositionals: true });
+  const [command, ...files] = positionals;
+  if (flags.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command !== 'convert' || !files.length) throw new UsageError(command && command !== 'convert' ? `Unknown command "${command}".` : 'No files given.');
+  const unknown = (flags.format ?? 'docx').split(',').map(f => f.trim()).filter(f => !EXPORT_FORMATS.some(info => info.id === f));
+  if (unknown.length) throw new UsageError(`Unknown export format: ${unknown.join(', ')}.`);
+
+  const settings = await buildSettings(flags);
+  const capabilities = await prepareNodeEnvironment();
+  let failed = 0;
+  for (const file of files) {
+    if (!(await convertFile(file, flags, settings, capabilities))) failed++;
+  }
+  if (failed) process.exitCode = 1;
+};
+
+main().catch(err => {
+  const usage = err instanceof UsageError || String(err?.code).startsWith('ERR_PARSE_ARGS');
+  log(usage ? `${err.message}\n\n${USAGE}` : `Error: ${err.message}`);
+  process.exitCode = usage ? 2 : 1;
+});
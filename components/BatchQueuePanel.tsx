@@ -0,0 +1,97 @@
+import React from 'react';
+import { ExportFormat, JobStatus, OcrMode, QueueJob } from '../types';
+import { EXPORT_FORMATS } from '../services/exporters';
+import { detectFormat, isPagedFormat } from '../services/inputAdapters';
+
+interface Props {
+  jobs: QueueJob[];
+  activeJobId: string | null;
+  running: boolean;
+  latin: boolean; // Current scheme writes Latin script, so Latin-only formats are allowed
+  onStart: () => void;
+  onPause: () => void;
+  onUpdate: (id: string, patch: Partial<QueueJob>) => void;
+  onRemove: (ids: string[]) => void;
+  onDownload: (job: QueueJob) => void;
+  onDownloadAll: () => void;
+}
+
+const inputClass = "w-full p-2 bg-slate-900 border border-slate-700 rounded-lg text-[10px] font-mono text-indigo-400 focus:border-indigo-500 outline-none disabled:opacity-40";
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'text-slate-500',
+  running: 'text-green-400',
+  paused: 'text-amber-400',
+  done: 'text-indigo-400',
+  failed: 'text-red-400'
+};
+
+const parseRange = (value: string) => (value ? Math.max(1, parseInt(value) || 1) : undefined);
+
+const BatchQueuePanel: React.FC<Props> = ({ jobs, activeJobId, running, latin, onStart, onPause, onUpdate, onRemove, onDownload, onDownloadAll }) => {
+  const waiting = jobs.filter(j => j.status === 'pending' || j.status === 'paused').length;
+  const done = jobs.filter(j => j.status === 'done');
+
+  return (
+    <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+      <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+        <i className="fas fa-list-ol mr-3 text-indigo-500"></i> Batch Queue
+        <span className="ml-auto text-slate-600">{done.length}/{jobs.length}</span>
+      </h2>
+
+      <div className="max-h-96 overflow-y-auto space-y-2 custom-scrollbar">
+        {jobs.map(job => {
+          const active = job.id === activeJobId;
+          const editable = !active && (job.status === 'pending' || job.status === 'failed');
+          return (
+            <div key={job.id} className={`p-3 rounded-2xl border space-y-2 ${active ? 'bg-indigo-500/5 border-indigo-500/40' : 'bg-slate-800/40 border-slate-700/30'}`}>
+              <div className="flex items-center justify-between text-[10px]">
+                <span className="font-black text-slate-300 truncate mr-2" title={job.fileName}>{job.fileName}</span>
+                <span className={`font-black uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+              </div>
+              <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>
+              </div>
+              {job.error && <p className="text-[9px] text-red-400 truncate" title={job.error}>{job.error}</p>}
+
+              <div className="grid grid-cols-4 gap-2 items-center">
+                {isPagedFormat(detectFormat(job.fileName)) ? (
+                  <>
+                    <input type="number" min={1} placeholder="From" value={job.rangeStart ?? ''} disabled={!editable} onChange={e => onUpdate(job.id, { rangeStart: parseRange(e.target.value) })} className={inputClass} />
+                    <input type="number" min={1} placeholder="To" value={job.rangeEnd ?? ''} disabled={!editable} onChange={e => onUpdate(job.id, { rangeEnd: parseRange(e.target.value) })} className={inputClass} />
+                  </>
+                ) : <span className="col-span-2"></span>}
+                <select value={job.ocrMode} disabled={!editable} onChange={e => onUpdate(job.id, { ocrMode: e.target.value as OcrMode })} title="Vision OCR" className={inputClass}>
+                  <option value="off">OCR OFF</option>
+                  <option value="auto">OCR AUTO</option>
+                  <option value="always">OCR ALL</option>
+                </select>
+                <select value={job.format} disabled={job.status === 'done'} onChange={e => onUpdate(job.id, { format: e.target.value as ExportFormat })} className={inputClass}>
+                  {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id} disabled={f.latinOnly && !latin}>{f.extension.toUpperCase()}{f.bilingual ? '+' : ''}</option>)}
+                </select>
+              </div>
+
+              <div className="flex justify-end space-x-3 text-[9px] font-black">
+                {job.status === 'failed' && <button onClick={() => onUpdate(job.id, { status: 'pending', error: undefined, progress: 0 })} className="text-amber-400">RETRY</button>}
+                {job.status === 'done' && <button onClick={() => onDownload(job)} className="text-indigo-400">DOWNLOAD</button>}
+                {!active && <button onClick={() => onRemove([job.id])} className="text-slate-500 hover:text-red-400">REMOVE</button>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {running ? (
+          <button onClick={onPause} className="py-3 bg-amber-500 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all">PAUSE QUEUE</button>
+        ) : (
+          <button onClick={onStart} disabled={!waiting && !activeJobId} className="py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all disabled:opacity-30">START QUEUE</button>
+        )}
+        <button onClick={onDownloadAll} disabled={!done.length} className="py-3 bg-slate-800 text-indigo-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">DOWNLOAD ZIP</button>
+        <button onClick={() => onRemove(done.map(j => j.id))} disabled={!done.length} className="col-span-2 py-2 bg-slate-800 text-slate-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">CLEAR FINISHED</button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { glossaryToCsv, glossaryToJson, parseGlossary } from '../services/glossary';
+
+interface Props {
+  entries: GlossaryEntry[];
+  onSave: (entries: GlossaryEntry[]) => void;
+}
+
+const inputClass = "w-full p-2 bg-slate-900 border border-slate-700 rounded-lg text-xs text-indigo-400 focus:border-indigo-500 outline-none";
+
+const download = (content: string, type: string, name: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const GlossaryPanel: React.FC<Props> = ({ entries, onSave }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [variants, setVariants] = useState('');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const addEntry = () => {
+    if (!source.trim() || !target.trim()) return;
+    const entry: GlossaryEntry = { source: source.trim(), target: target.trim() };
+    const list = variants.split(',').map(v => v.trim()).filter(Boolean);
+    if (list.length) entry.variants = list;
+    onSave([...entries.filter(e => e.source !== entry.source), entry]);
+    setSource('');
+    setTarget('');
+    setVariants('');
+    setMessage(null);
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossary(await file.text(), file.name);
+      const sources = new Set(imported.map(i => i.source));
+      onSave([...entries.filter(x => !sources.has(x.source)), ...imported]);
+      setMessage({ ok: true, text: `Imported ${imported.length} term(s).` });
+    } catch (err: any) {
+      setMessage({ ok: false, text: `Import failed: ${err.message}` });
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+      <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+        <i className="fas fa-book mr-3 text-indigo-500"></i> Glossary
+        <span className="ml-auto text-slate-600">{entries.length}</span>
+      </h2>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input type="text" dir="rtl" value={source} placeholder="اردو" onChange={e => setSource(e.target.value)} className={`${inputClass} text-right`} />
+        <input type="text" value={target} placeholder="Muhammad" onChange={e => setTarget(e.target.value)} onKeyDown={e => e.key === 'Enter' && addEntry()} className={inputClass} />
+        <input type="text" value={variants} placeholder="Variants: Mohammad, Mohammed" onChange={e => setVariants(e.target.value)} onKeyDown={e => e.key === 'Enter' && addEntry()} className={`${inputClass} col-span-2`} />
+      </div>
+      <button onClick={addEntry} disabled={!source.trim() || !target.trim()} className="w-full py-2 bg-indigo-600 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all disabled:opacity-30">ADD TERM</button>
+
+      {entries.length > 0 && (
+        <div className="max-h-48 overflow-y-auto space-y-1 custom-scrollbar">
+          {entries.map(entry => (
+            <div key={entry.source} className="flex items-center justify-between p-2 bg-slate-800/40 rounded-lg text-[10px]">
+              <span dir="rtl" className="text-slate-300">{entry.source}</span>
+              <span className="font-mono text-indigo-300 truncate mx-2" title={entry.variants?.join(', ')}>{entry.target}</span>
+              <button onClick={() => onSave(entries.filter(e => e !== entry))} className="text-slate-500 hover:text-red-400"><i className="fas fa-times"></i></button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <p className={`text-[10px] font-mono break-words ${message.ok ? 'text-green-400' : 'text-red-400'}`}>{message.text}</p>}
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="py-2 text-center bg-slate-800 text-slate-300 text-[10px] font-black rounded-xl border border-slate-700 cursor-pointer active:scale-95 transition-all">
+          IMPORT
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={importFile} className="hidden" />
+        </label>
+        <button onClick={() => download(glossaryToCsv(entries), 'text/csv', 'glossary.csv')} disabled={!entries.length} className="py-2 bg-slate-800 text-slate-300 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">CSV</button>
+        <button onClick={() => download(glossaryToJson(entries), 'application/json', 'glossary.json')} disabled={!entries.length} className="py-2 bg-slate-800 text-slate-300 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">JSON</button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
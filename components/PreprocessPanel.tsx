@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { PreprocessSettings } from '../types';
+import { encodeCanvas, preprocessScan, ScanCanvas } from '../services/imagePreprocess';
+
+interface Props {
+  settings: PreprocessSettings;
+  onSave: (settings: PreprocessSettings) => void;
+  canPreview: boolean; // The loaded file is a PDF, TIFF or image
+  loadSample: (page: number, settings: PreprocessSettings) => Promise<ScanCanvas | null>;
+}
+
+interface PreviewImage { url: string; bytes: number; width: number; height: number; }
+
+const inputClass = "w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none";
+
+const TOGGLES: { key: keyof PreprocessSettings; label: string }[] = [
+  { key: 'grayscale', label: 'GRAYSCALE' },
+  { key: 'binarize', label: 'BLACK & WHITE' },
+  { key: 'deskew', label: 'DESKEW' },
+  { key: 'cropMargins', label: 'CROP MARGINS' },
+  { key: 'splitSpreads', label: 'SPLIT SPREADS' }
+];
+
+const formatKB = (bytes: number) => `${Math.round(bytes / 1024).toLocaleString()} KB`;
+
+const PreprocessPanel: React.FC<Props> = ({ settings, onSave, canPreview, loadSample }) => {
+  const [draft, setDraft] = useState<PreprocessSettings>(settings);
+  const [samplePage, setSamplePage] = useState('1');
+  const [preview, setPreview] = useState<{ before: PreviewImage; after: PreviewImage[] } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const update = (patch: Partial<PreprocessSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const runPreview = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const source = await loadSample(Math.max(1, parseInt(samplePage) || 1), draft);
+      if (!source) throw new Error('Load a PDF, TIFF or image to preview.');
+      const raw = await encodeCanvas(source, 'image/jpeg', 0.8);
+      const before = { url: `data:image/jpeg;base64,${raw}`, bytes: Math.floor(raw.length * 3 / 4), width: source.width, height: source.height };
+      const after = (await preprocessScan(source, draft, draft.maxRequestKB * 1024)).map(scan => ({
+        url: `data:${scan.mimeType};base64,${scan.data}`,
+        bytes: scan.bytes,
+        width: scan.canvas.width,
+        height: scan.canvas.height
+      }));
+      setPreview({ before, after });
+    } catch (err: any) {
+      setPreview(null);
+      setMessage(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const figure = (image: PreviewImage, label: string) => (
+    <figure key={label} className="space-y-1">
+      <img src={image.url} alt={label} className="w-full rounded-lg border border-slate-700 bg-white" />
+      <figcaption className="text-[8px] font-mono text-slate-500">{label} · {image.width}×{image.height} · {formatKB(image.bytes)}</figcaption>
+    </figure>
+  );
+
+  return (
+    <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+      <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+        <i className="fas fa-image mr-3 text-indigo-500"></i> Scan Quality
+      </h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <span className="text-[8px] text-slate-500 block mb-1">TARGET DPI</span>
+          <input type="number" min={100} max={400} step={25} value={draft.targetDpi} onChange={e => update({ targetDpi: Math.min(400, Math.max(100, parseInt(e.target.value) || 200)) })} className={inputClass} />
+        </div>
+        <div>
+          <span className="text-[8px] text-slate-500 block mb-1">MAX KB / REQUEST</span>
+          <input type="number" min={200} max={20000} step={100} value={draft.maxRequestKB} onChange={e => update({ maxRequestKB: Math.max(200, parseInt(e.target.value) || 1500) })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center space-x-2 text-[9px] font-black text-slate-400">
+            <input type="checkbox" checked={draft[key] as boolean} onChange={e => update({ [key]: e.target.checked })} />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <input type="number" min={1} value={samplePage} onChange={e => setSamplePage(e.target.value)} className={inputClass} />
+        <button onClick={runPreview} disabled={busy || !canPreview} className="col-span-2 py-2 bg-slate-800 text-indigo-400 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-30">
+          {busy ? 'PROCESSING...' : 'PREVIEW PAGE'}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="grid grid-cols-2 gap-2">
+          {figure(preview.before, 'BEFORE')}
+          <div className="space-y-2">{preview.after.map((image, i) => figure(image, preview.after.length > 1 ? `AFTER ${i + 1}` : 'AFTER'))}</div>
+        </div>
+      )}
+
+      {message && <p className="text-[10px] font-mono break-words text-red-400">{message}</p>}
+
+      <button onClick={() => onSave(draft)} className="w-full py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all">SAVE</button>
+    </div>
+  );
+};
+
+export default PreprocessPanel;
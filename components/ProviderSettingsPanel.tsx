@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ProviderKind, ProviderSettings } from '../types';
+import { createProvider, testProvider } from '../services/providers';
+
+interface Props {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+}
+
+const inputClass = "w-full p-3 bg-slate-900 border border-slate-700 rounded-xl text-xs font-mono text-indigo-400 focus:border-indigo-500 outline-none";
+
+const ProviderSettingsPanel: React.FC<Props> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const proxied = draft.kind === 'gemini' && !!draft.proxyUrl;
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTestResult(null);
+  };
+
+  const runTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const sample = await testProvider(createProvider(draft));
+      setTestResult({ ok: true, message: sample ? `OK: "${sample}"` : 'Connected, but the model returned no text.' });
+    } catch (err: any) {
+      setTestResult({ ok: false, message: err.message });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+      <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+        <i className="fas fa-server mr-3 text-indigo-500"></i> AI Provider
+      </h2>
+
+      <select value={draft.kind} onChange={e => update({ kind: e.target.value as ProviderKind })} className={inputClass}>
+        <option value="gemini">Gemini Cloud</option>
+        <option value="openai">OpenAI-Compatible (llama.cpp / Ollama)</option>
+      </select>
+
+      {draft.kind === 'openai' && (
+        <div>
+          <span className="text-[8px] text-slate-500 block mb-1">ENDPOINT</span>
+          <input type="url" value={draft.endpoint} placeholder="http://localhost:11434/v1" onChange={e => update({ endpoint: e.target.value })} className={inputClass} />
+        </div>
+      )}
+      {draft.kind === 'gemini' && (
+        <div>
+          <span className="text-[8px] text-slate-500 block mb-1">PROXY URL</span>
+          <input type="url" value={draft.proxyUrl} placeholder="Optional, e.g. http://localhost:8787" onChange={e => update({ proxyUrl: e.target.value })} className={inputClass} />
+        </div>
+      )}
+      <div>
+        <span className="text-[8px] text-slate-500 block mb-1">MODEL</span>
+        <input type="text" value={draft.model} placeholder={draft.kind === 'gemini' ? 'gemini-3-flash-preview' : 'llama3.1:8b'} onChange={e => update({ model: e.target.value })} className={inputClass} />
+      </div>
+      <div>
+        <span className="text-[8px] text-slate-500 block mb-1">{proxied ? 'PROXY TOKEN' : 'API KEY'}</span>
+        <input type="password" value={draft.apiKey} placeholder={proxied ? 'Issued by the proxy admin' : draft.kind === 'gemini' ? 'Build-time key' : 'Optional'} onChange={e => update({ apiKey: e.target.value })} className={inputClass} />
+      </div>
+
+      {testResult && (
+        <p className={`text-[10px] font-mono break-words ${testResult.ok ? 'text-green-400' : 'text-red-400'}`}>{testResult.message}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={runTest} disabled={testing} className="py-2 bg-slate-800 text-slate-300 text-[10px] font-black rounded-xl border border-slate-700 active:scale-95 transition-all disabled:opacity-40">
+          {testing ? 'TESTING...' : 'TEST'}
+        </button>
+        <button onClick={() => onSave(draft)} className="py-2 bg-indigo-600 text-white text-[10px] font-black rounded-xl active:scale-95 transition-all">SAVE</button>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OutputScheme, QuickConversion } from '../types';
+import { schemeFor } from '../services/schemes';
+import { addQuickConversion, loadQuickHistory, saveQuickHistory } from '../services/quickHistory';
+import { batchPerFrame } from '../services/frameBatch';
+
+interface Props {
+  scheme: OutputScheme;
+  initialText?: string; // Text shared to the app, converted as soon as the pad opens
+  // Streams a conversion of `text`; resolves null when aborted.
+  convert: (text: string, onChunk: (chunk: string) => void, signal: AbortSignal) => Promise<string | null>;
+  onCopy: (text: string) => void;
+  onClose: () => void;
+}
+
+const DEBOUNCE_MS = 800; // Pause in typing before a request goes out
+const MAX_CHARS = 5000;  // Longer text belongs in a file, where it is chunked and checkpointed
+
+const QuickConvertPanel: React.FC<Props> = ({ scheme, initialText, convert, onCopy, onClose }) => {
+  const [text, setText] = useState(initialText?.slice(0, MAX_CHARS) ?? '');
+  const [output, setOutput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<QuickConversion[]>(loadQuickHistory);
+  const lastRef = useRef<string | null>(null); // Scheme and text of the output on screen
+  const [liveOutput] = useState(() => batchPerFrame(setOutput));
+  const { source, sourceScript, rtl } = schemeFor(scheme);
+
+  useEffect(() => {
+    const input = text.trim();
+    const key = `${scheme}\n${input}`;
+    if (!input || key === lastRef.current) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => run(input, key, controller.signal), DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      liveOutput.cancel();
+      setBusy(false);
+    };
+  }, [text, scheme]);
+
+  const run = async (input: string, key: string, signal: AbortSignal) => {
+    setBusy(true);
+    setError(null);
+    let live = '';
+    setOutput('');
+    try {
+      const result = await convert(input, chunk => { live += chunk; liveOutput.push(live); }, signal);
+      if (result === null || signal.aborted) return;
+      liveOutput.cancel();
+      setOutput(result);
+      lastRef.current = key;
+      const entry: QuickConversion = { id: crypto.randomUUID(), source: input, output: result, scheme, createdAt: Date.now() };
+      setHistory(prev => {
+        const next = addQuickConversion(prev, entry);
+        saveQuickHistory(next);
+        return next;
+      });
+    } catch (err: any) {
+      if (!signal.aborted) setError(err.message);
+    } finally {
+      if (!signal.aborted) setBusy(false);
+    }
+  };
+
+  const restore = (entry: QuickConversion) => {
+    lastRef.current = `${entry.scheme}\n${entry.source}`;
+    setText(entry.source);
+    setOutput(entry.output);
+    setError(null);
+  };
+
+  const updateHistory = (entries: QuickConversion[]) => {
+    saveQuickHistory(entries);
+    setHistory(entries);
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-[2.5rem] p-6 border border-slate-800 space-y-4">
+      <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+        <i className="fas fa-bolt mr-3 text-indigo-500"></i> Quick Convert
+        <span className="ml-3 text-slate-600 normal-case">{source} → {schemeFor(scheme).label}</span>
+        <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white"><i className="fas fa-times"></i></button>
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <textarea value={text} onChange={e => setText(e.target.value.slice(0, MAX_CHARS))} dir={sourceScript === 'arabic' ? 'rtl' : 'ltr'}
+            placeholder={sourceScript === 'arabic' ? 'یہاں اردو لکھیں یا پیسٹ کریں' : 'Type or paste Roman Urdu'}
+            className="w-full h-48 p-4 bg-slate-900 border border-slate-700 rounded-2xl text-sm text-slate-200 leading-relaxed focus:border-indigo-500 outline-none resize-y" />
+          <p className="text-[8px] text-slate-600 text-right">{text.length.toLocaleString()} / {MAX_CHARS.toLocaleString()}</p>
+        </div>
+        <div className="relative">
+          <div dir={rtl ? 'rtl' : 'ltr'} className="w-full h-48 p-4 bg-indigo-500/5 border border-indigo-500/10 rounded-2xl text-sm text-indigo-100 leading-relaxed whitespace-pre-wrap overflow-y-auto">
+            {output || <span className="text-slate-600">{busy ? 'Converting...' : 'Output appears here as you type.'}</span>}
+            {busy && output && <span className="inline-block w-2 h-4 bg-green-400 ml-1 animate-pulse"></span>}
+          </div>
+          <button onClick={() => onCopy(output)} disabled={!output || busy} title="Copy" className="absolute top-2 right-2 p-2 text-indigo-400 hover:bg-indigo-500/10 rounded-lg disabled:opacity-20">
+            <i className="fas fa-copy"></i>
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] font-mono break-words text-red-400">{error}</p>}
+
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">Recent ({history.length})</span>
+            <button onClick={() => updateHistory([])} className="text-[9px] font-black text-slate-500 hover:text-red-400">CLEAR</button>
+          </div>
+          <ul className="max-h-48 overflow-y-auto space-y-1 custom-scrollbar">
+            {history.map(entry => (
+              <li key={entry.id} className="flex items-center space-x-2 p-2 bg-slate-800/40 rounded-xl text-[10px]">
+                <button onClick={() => restore(entry)} className="flex-1 min-w-0 text-left" title={entry.source}>
+                  <span className="block truncate text-slate-300">{entry.output}</span>
+                  <span className="block text-[8px] text-slate-600">{schemeFor(entry.scheme).label} · {new Date(entry.createdAt).toLocaleString()}</span>
+                </button>
+                <button onClick={() => onCopy(entry.output)} title="Copy" className="p-1 text-indigo-400 hover:text-white"><i className="fas fa-copy"></i></button>
+                <button onClick={() => updateHistory(history.filter(e => e.id !== entry.id))} title="Remove" className="p-1 text-slate-500 hover:text-red-400"><i className="fas fa-trash"></i></button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickConvertPanel;
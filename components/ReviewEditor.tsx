@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ResumeStore } from '../services/resumeStore';
+import { ReviewItem, ReviewStatus } from '../types';
+
+interface Props {
+  store: ResumeStore;
+  sessionKey: string;
+  total: number;
+  busy: boolean;
+  sourceRtl: boolean; // Urdu source; Roman Urdu sources read left to right
+  outputRtl: boolean;
+  onEdit: (index: number, text: string) => void;
+  onRegenerate: (index: number) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20; // Rows loaded from IndexedDB at a time; the full book never sits in React state
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-slate-700/50 text-slate-400',
+  accepted: 'bg-green-500/20 text-green-400',
+  flagged: 'bg-amber-500/20 text-amber-400'
+};
+
+const ReviewEditor: React.FC<Props> = ({ store, sessionKey, total, busy, sourceRtl, outputRtl, onEdit, onRegenerate, onClose }) => {
+  const [windowStart, setWindowStart] = useState(0);
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [cursor, setCursor] = useState(0);
+  const [drafts, setDrafts] = useState<Map<number, string>>(new Map());
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(await store.getReviewItems(sessionKey, windowStart, PAGE_SIZE));
+    } catch (err: any) {
+      setError(`Could not load chunks: ${err.message}`);
+    }
+  }, [store, sessionKey, windowStart]);
+
+  useEffect(() => { reload(); }, [reload]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${cursor}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [cursor, items]);
+
+  const moveTo = (index: number) => {
+    const next = Math.max(0, Math.min(total - 1, index));
+    setCursor(next);
+    const start = Math.floor(next / PAGE_SIZE) * PAGE_SIZE;
+    if (start !== windowStart) setWindowStart(start);
+  };
+
+  const patchItem = (index: number, patch: Partial<ReviewItem>) =>
+    setItems(prev => prev.map(it => (it.index === index ? { ...it, ...patch } : it)));
+
+  const save = async (index: number) => {
+    const draft = drafts.get(index);
+    if (draft === undefined) return;
+    await store.updateChunk(sessionKey, index, { edited: draft });
+    onEdit(index, draft);
+    patchItem(index, { edited: draft });
+    setDrafts(prev => { const m = new Map(prev); m.delete(index); return m; });
+  };
+
+  const setStatus = async (index: number, review: ReviewStatus) => {
+    await store.updateChunk(sessionKey, index, { review });
+    patchItem(index, { review });
+  };
+
+  const regenerate = async (index: number) => {
+    if (busy || regenerating !== null) return;
+    setRegenerating(index);
+    setError(null);
+    try {
+      await onRegenerate(index);
+      setDrafts(prev => { const m = new Map(prev); m.delete(index); return m; });
+      await reload();
+    } catch (err: any) {
+      setError(`Regenerate failed: ${err.message}`);
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const nextFlagged = async () => {
+    const found = await store.findNext(sessionKey, cursor + 1, 'flagged');
+    if (found >= 0) moveTo(found); else setError('No flagged chunks after this one.');
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const typing = (e.target as HTMLElement)?.tagName === 'TEXTAREA';
+      if (typing) {
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          save(cursor).then(() => setStatus(cursor, 'accepted')).then(() => moveTo(cursor + 1));
+          (e.target as HTMLElement).blur();
+        } else if (e.key === 'Escape') {
+          (e.target as HTMLElement).blur();
+        }
+        return;
+      }
+      switch (e.key) {
+        case 'ArrowDown': case 'j': e.preventDefault(); moveTo(cursor + 1); break;
+        case 'ArrowUp': case 'k': e.preventDefault(); moveTo(cursor - 1); break;
+        case 'a': setStatus(cursor, 'accepted'); break;
+        case 'f': setStatus(cursor, 'flagged'); break;
+        case 'r': regenerate(cursor); break;
+        case 'n': nextFlagged(); break;
+        case 'e': case 'Enter':
+          e.preventDefault();
+          listRef.current?.querySelector<HTMLTextAreaElement>(`[data-index="${cursor}"] textarea`)?.focus();
+          break;
+        case 'Escape': onClose(); break;
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-950/95 backdrop-blur-xl flex flex-col">
+      <div className="p-6 border-b border-white/5 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-black text-white tracking-tight">Review Editor</h3>
+          <p className="text-[9px] text-slate-500 font-black uppercase tracking-widest mt-1">
+            J/K move · E edit · Ctrl+Enter save &amp; accept · A accept · F flag · R regenerate · N next flagged · Esc close
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <span className="text-[10px] font-mono text-slate-400">{cursor + 1} / {total}</span>
+          <button onClick={() => moveTo(windowStart - PAGE_SIZE)} disabled={windowStart === 0} className="w-10 h-10 bg-slate-800 text-slate-400 rounded-xl disabled:opacity-20"><i className="fas fa-chevron-up"></i></button>
+          <button onClick={() => moveTo(windowStart + PAGE_SIZE)} disabled={windowStart + PAGE_SIZE >= total} className="w-10 h-10 bg-slate-800 text-slate-400 rounded-xl disabled:opacity-20"><i className="fas fa-chevron-down"></i></button>
+          <button onClick={nextFlagged} className="px-4 h-10 bg-amber-500/10 text-amber-400 text-[10px] font-black rounded-xl border border-amber-500/20">NEXT FLAGGED</button>
+          <button onClick={onClose} className="w-10 h-10 bg-slate-800 text-red-400 rounded-xl"><i className="fas fa-times"></i></button>
+        </div>
+      </div>
+
+      {error && <p className="px-6 py-2 text-[10px] text-red-400 font-mono">{error}</p>}
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+        {items.map(item => {
+          const active = item.index === cursor;
+          const value = drafts.get(item.index) ?? item.edited ?? item.text;
+          return (
+            <div key={item.index} data-index={item.index} onClick={() => setCursor(item.index)}
+              className={`grid grid-cols-1 md:grid-cols-2 gap-4 p-4 rounded-[1.5rem] border transition-all ${active ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-white/5 bg-slate-900/40'}`}>
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2 mb-2">
+                  <span className="text-[9px] font-black text-slate-500">#{item.index + 1}</span>
+                  {item.page !== undefined && <span className="text-[8px] bg-slate-700/50 text-slate-400 px-2 py-0.5 rounded">PAGE {item.page}</span>}
+                </div>
+                {item.thumbnail
+                  ? <img src={item.thumbnail} alt={`Source ${item.index + 1}`} className="max-h-72 rounded-xl border border-white/10" />
+                  : <p className={`text-slate-300 text-sm leading-relaxed whitespace-pre-wrap max-h-72 overflow-y-auto ${sourceRtl ? 'text-right' : ''}`} dir={sourceRtl ? 'rtl' : 'ltr'}>{item.original ?? '(original not stored)'}</p>}
+              </div>
+              <div className="flex flex-col min-w-0">
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`text-[8px] font-black px-2 py-0.5 rounded uppercase ${STATUS_STYLES[item.review]}`}>
+                    {item.review}{item.edited !== undefined ? ' · edited' : ''}
+                  </span>
+                  <div className="flex space-x-2">
+                    <button onClick={() => setStatus(item.index, 'accepted')} title="Accept (A)" className="w-8 h-8 text-green-400 hover:bg-green-500/10 rounded-lg"><i className="fas fa-check"></i></button>
+                    <button onClick={() => setStatus(item.index, 'flagged')} title="Flag (F)" className="w-8 h-8 text-amber-400 hover:bg-amber-500/10 rounded-lg"><i className="fas fa-flag"></i></button>
+                    <button onClick={() => regenerate(item.index)} disabled={busy || regenerating !== null} title="Regenerate (R)" className="w-8 h-8 text-indigo-400 hover:bg-indigo-500/10 rounded-lg disabled:opacity-20">
+                      <i className={`fas fa-sync-alt ${regenerating === item.index ? 'animate-spin' : ''}`}></i>
+                    </button>
+                  </div>
+                </div>
+                <textarea value={value} dir={outputRtl ? 'rtl' : 'ltr'} onFocus={() => setCursor(item.index)}
+                  onChange={e => { const text = e.target.value; setDrafts(prev => new Map(prev).set(item.index, text)); }}
+                  onBlur={() => save(item.index)}
+                  className="flex-1 min-h-[8rem] p-3 bg-slate-900 border border-slate-700 rounded-xl text-sm text-indigo-100 leading-relaxed focus:border-indigo-500 outline-none resize-y" />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewEditor;
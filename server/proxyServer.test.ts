@@ -0,0 +1,141 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_GEMINI_MODEL, GeminiService } from '../services/geminiService';
+import { createProxyServer, ProxyConfig } from './proxyServer';
+
+// Runs the proxy against a local stand-in for the Gemini API, both on ephemeral ports.
+
+const UPSTREAM_KEY = 'upstream-key';
+const TOKEN = 'token-alice';
+
+// Streams two text parts as SSE, the way streamGenerateContent does.
+const upstream = createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (req.headers['x-goog-api-key'] !== UPSTREAM_KEY) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 403, message: 'wrong key', status: 'PERMISSION_DENIED' } }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    ['salaam', ' dunya'].forEach((text, i) => {
+      const event = { candidates: [{ content: { role: 'model', parts: [{ text }] } }], usageMetadata: { promptTokenCount: 12, candidatesTokenCount: i + 1 } };
+      res.write(`data: ${JSON.stringify(event)}\r\n\r\n`);
+    });
+    res.end();
+  });
+});
+
+const listen = async (server: Server) => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: Server) => new Promise(resolve => server.close(resolve));
+
+let upstreamUrl: string;
+const proxies: Server[] = [];
+
+const startProxy = async (overrides: Partial<ProxyConfig> = {}) => {
+  const proxy = createProxyServer({
+    apiKey: UPSTREAM_KEY,
+    models: [DEFAULT_GEMINI_MODEL],
+    tokens: new Map([[TOKEN, 'alice']]),
+    maxBodyBytes: 1024 * 1024,
+    requestsPerMinute: 30,
+    allowedOrigins: ['*'],
+    baseUrl: upstreamUrl,
+    ...overrides
+  });
+  proxies.push(proxy);
+  return listen(proxy);
+};
+
+const convert = (url: string, body: unknown, token = TOKEN) =>
+  fetch(`${url}/convert`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+const REQUEST = { inputs: ['سلام دنیا'], options: {} };
+
+beforeAll(async () => {
+  upstreamUrl = await listen(upstream);
+});
+
+afterAll(async () => {
+  await Promise.all([upstream, ...proxies].map(close));
+});
+
+describe('proxy server', () => {
+  it('rejects missing and unknown tokens', async () => {
+    const url = await startProxy();
+    const missing = await fetch(`${url}/convert`, { method: 'POST', body: JSON.stringify(REQUEST) });
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: 'Missing proxy token.' });
+    const unknown = await convert(url, REQUEST, 'token-mallory');
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual({ error: 'Unknown proxy token.' });
+  });
+
+  it('refuses bodies over the size limit with 413', async () => {
+    const url = await startProxy({ maxBodyBytes: 100 * 1024 });
+    const res = await convert(url, { inputs: ['ا'.repeat(100 * 1024)], options: {} });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: 'Request body is over the 0.1 MB limit.' });
+  });
+
+  it('answers 429 with Retry-After once a user is over the rate limit', async () => {
+    const url = await startProxy({ requestsPerMinute: 2 });
+    expect((await convert(url, REQUEST)).status).toBe(200);
+    expect((await convert(url, REQUEST)).status).toBe(200);
+    const limited = await convert(url, REQUEST);
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('refuses models the operator has not allowed', async () => {
+    const url = await startProxy();
+    const res = await convert(url, { ...REQUEST, model: 'gemini-3-pro-preview' });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: `model must be one of ${DEFAULT_GEMINI_MODEL}.` });
+  });
+
+  it('refuses options of the wrong type or size', async () => {
+    const url = await startProxy();
+    const bad = [
+      { scheme: 'klingon' },
+      { language: 42 },
+      { pages: [1, 2] },
+      { glossary: [{ source: 'غالب', target: 'x'.repeat(201) }] },
+      { context: { source: 'x'.repeat(4001), output: '', names: [] } },
+      'roman'
+    ];
+    for (const options of bad) {
+      const res = await convert(url, { ...REQUEST, options });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toMatch(/^options/);
+    }
+  });
+
+  it('relays the upstream stream as NDJSON events', async () => {
+    const url = await startProxy();
+    const res = await convert(url, REQUEST);
+    expect(res.headers.get('content-type')).toBe('application/x-ndjson');
+    const events = (await res.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(events.filter(e => e.type === 'text').map(e => e.text).join('')).toBe('salaam dunya');
+    expect(events).toContainEqual({ type: 'usage', usage: { inputTokens: 12, outputTokens: 2 } });
+    expect(events.at(-1)).toEqual({ type: 'done' });
+  });
+
+  it('serves GeminiService in proxy mode end to end', async () => {
+    const url = await startProxy();
+    const service = new GeminiService({ proxy: { url, token: TOKEN } });
+    let text = '';
+    for await (const chunk of service.convertStream(['سلام دنیا'])) text += chunk;
+    expect(text).toBe('salaam dunya');
+  });
+});
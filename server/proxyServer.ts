@@ -0,0 +1,221 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { GeminiService, ProxyConvertRequest, ProxyEvent } from '../services/geminiService';
+import { ProviderError } from '../services/transliterationProvider';
+import { OutputScheme, SourceLanguage } from '../types';
+import { SCHEMES } from '../services/schemes';
+import { LANGUAGES } from '../services/languages';
+
+// A small HTTP server that holds the Gemini API key so browser builds never ship it. Each user
+// gets their own token; POST /convert takes a ProxyConvertRequest and streams the conversion back
+// as NDJSON ProxyEvents. Requests are capped in size and rate-limited per user, and may only
+// use the models the operator allows, since every request is billed to the proxy's key.
+
+export interface ProxyConfig {
+  apiKey: string;
+  models: string[]; // Models users may ask for; the first serves requests that name none
+  tokens: Map<string, string>; // Token -> user name, for logs and rate limiting
+  maxBodyBytes: number;
+  requestsPerMinute: number; // Per user
+  allowedOrigins: string[]; // Browser origins allowed to call the proxy; '*' allows any
+  baseUrl?: string; // Upstream Gemini endpoint, when not Google's
+  log?: (line: string) => void;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const WINDOW_MS = 60_000;
+
+// Upper bounds on the request options, well above what the app sends.
+const MAX_GLOSSARY_ENTRIES = 500;
+const MAX_TERM_CHARS = 200;
+const MAX_CONTEXT_CHARS = 4000;
+const MAX_CONTEXT_NAMES = 100;
+
+// Sliding one-minute window of request start times per user.
+class RateLimiter {
+  private starts = new Map<string, number[]>();
+
+  constructor(private limit: number) {}
+
+  // Records a request, or returns how long to wait before the next one is allowed.
+  take(user: string, now = Date.now()): number | null {
+    const recent = (this.starts.get(user) ?? []).filter(t => now - t < WINDOW_MS);
+    if (recent.length >= this.limit) {
+      this.starts.set(user, recent);
+      return recent[0] + WINDOW_MS - now;
+    }
+    recent.push(now);
+    this.starts.set(user, recent);
+    return null;
+  }
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Compares digests in constant time so response timing says nothing about valid tokens.
+const authenticate = (header: string | undefined, tokens: { user: string; digest: Buffer }[]): string => {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) throw new HttpError(401, 'Missing proxy token.');
+  const given = digest(token);
+  let user: string | null = null;
+  for (const entry of tokens) {
+    if (timingSafeEqual(given, entry.digest)) user = entry.user;
+  }
+  if (!user) throw new HttpError(401, 'Unknown proxy token.');
+  return user;
+};
+
+const readBody = async (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  const tooLarge = () => new HttpError(413, `Request body is over the ${+(maxBytes / 1024 / 1024).toFixed(2)} MB limit.`);
+  if (Number(req.headers['content-length']) > maxBytes) throw tooLarge();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const isString = (value: unknown, maxChars: number): value is string => typeof value === 'string' && value.length <= maxChars;
+const isStringList = (value: unknown, maxItems: number, maxChars: number): value is string[] =>
+  Array.isArray(value) && value.length <= maxItems && value.every(item => isString(item, maxChars));
+
+// Rebuilds the options field by field, so nothing but known, bounded values reaches the prompt.
+const parseOptions = (value: unknown, inputCount: number): ProxyConvertRequest['options'] => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw new HttpError(400, 'options must be an object.');
+  const { pages, glossary, scheme, language, context } = value as Record<string, unknown>;
+  const options: ProxyConvertRequest['options'] = {};
+  if (pages !== undefined) {
+    if (!Array.isArray(pages) || pages.length !== inputCount || !pages.every(page => Number.isInteger(page) && page > 0)) {
+      throw new HttpError(400, 'options.pages must give a page number for each input.');
+    }
+    options.pages = pages;
+  }
+  if (glossary !== undefined) {
+    const validEntry = (entry: any) => typeof entry === 'object' && entry !== null &&
+      isString(entry.source, MAX_TERM_CHARS) && isString(entry.target, MAX_TERM_CHARS) &&
+      (entry.variants === undefined || isStringList(entry.variants, 20, MAX_TERM_CHARS));
+    if (!Array.isArray(glossary) || glossary.length > MAX_GLOSSARY_ENTRIES || !glossary.every(validEntry)) {
+      throw new HttpError(400, `options.glossary must be at most ${MAX_GLOSSARY_ENTRIES} { source, target, variants? } entries of up to ${MAX_TERM_CHARS} characters.`);
+    }
+    options.glossary = glossary.map(({ source, target, variants }) => ({ source, target, ...(variants ? { variants } : {}) }));
+  }
+  if (scheme !== undefined) {
+    if (typeof scheme !== 'string' || !Object.hasOwn(SCHEMES, scheme)) throw new HttpError(400, `options.scheme must be one of ${Object.keys(SCHEMES).join(', ')}.`);
+    options.scheme = scheme as OutputScheme;
+  }
+  if (language !== undefined) {
+    if (typeof language !== 'string' || !Object.hasOwn(LANGUAGES, language)) throw new HttpError(400, `options.language must be one of ${Object.keys(LANGUAGES).join(', ')}.`);
+    options.language = language as SourceLanguage;
+  }
+  if (context !== undefined) {
+    const { source, output, names } = (context ?? {}) as Record<string, unknown>;
+    if (!isString(source, MAX_CONTEXT_CHARS) || !isString(output, MAX_CONTEXT_CHARS) || !isStringList(names, MAX_CONTEXT_NAMES, MAX_TERM_CHARS)) {
+      throw new HttpError(400, `options.context must be { source, output, names } with up to ${MAX_CONTEXT_CHARS} characters of text and ${MAX_CONTEXT_NAMES} names.`);
+    }
+    options.context = { source, output, names };
+  }
+  return options;
+};
+
+const parseRequest = (body: string, models: string[]): ProxyConvertRequest => {
+  let request: ProxyConvertRequest;
+  try {
+    request = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body is not JSON.');
+  }
+  const validInput = (input: unknown) =>
+    typeof input === 'string' || (typeof input === 'object' && input !== null && typeof (input as any).data === 'string' && typeof (input as any).mimeType === 'string');
+  if (!Array.isArray(request?.inputs) || !request.inputs.length || !request.inputs.every(validInput)) {
+    throw new HttpError(400, 'inputs must be a non-empty list of text or { data, mimeType } images.');
+  }
+  const model = request.model ?? models[0];
+  if (typeof model !== 'string' || !models.includes(model)) throw new HttpError(400, `model must be one of ${models.join(', ')}.`);
+  return { model, inputs: request.inputs, options: parseOptions(request.options, request.inputs.length) };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const createProxyServer = (config: ProxyConfig): Server => {
+  const tokens = [...config.tokens].map(([token, user]) => ({ user, digest: digest(token) }));
+  const limiter = new RateLimiter(config.requestsPerMinute);
+  const log = config.log ?? (() => {});
+
+  const corsHeaders = (origin: string | undefined): Record<string, string> => {
+    const allowAny = config.allowedOrigins.includes('*');
+    if (!allowAny && (!origin || !config.allowedOrigins.includes(origin))) return {};
+    return {
+      'Access-Control-Allow-Origin': allowAny ? '*' : origin!,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Expose-Headers': 'Retry-After',
+      'Access-Control-Max-Age': '600',
+      Vary: 'Origin'
+    };
+  };
+
+  const convert = async (req: IncomingMessage, res: ServerResponse, cors: Record<string, string>) => {
+    const user = authenticate(req.headers.authorization, tokens);
+    const waitMs = limiter.take(user);
+    if (waitMs !== null) throw new HttpError(429, 'Rate limit reached; try again shortly.', waitMs);
+    const request = parseRequest(await readBody(req, config.maxBodyBytes), config.models);
+
+    const started = Date.now();
+    const provider = new GeminiService({ apiKey: config.apiKey, model: request.model, baseUrl: config.baseUrl });
+    let closed = false;
+    res.on('close', () => { closed = true; });
+    const send = (event: ProxyEvent) => { if (!closed) res.write(JSON.stringify(event) + '\n'); };
+
+    res.writeHead(200, { ...cors, 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store', 'X-Accel-Buffering': 'no' });
+    try {
+      for await (const text of provider.convertStream(request.inputs, { ...request.options, onUsage: usage => send({ type: 'usage', usage }) })) {
+        if (closed) break; // The caller went away; stop paying for tokens nobody will read
+        send({ type: 'text', text });
+      }
+      send({ type: 'done' });
+      log(`${user}: ${provider.model}, ${request.inputs.length} input(s), ${Date.now() - started} ms${closed ? ' (client disconnected)' : ''}`);
+    } catch (err: any) {
+      const status = err instanceof ProviderError ? err.status : undefined;
+      send({ type: 'error', message: err?.message ?? String(err), status, retryAfterMs: err instanceof ProviderError ? err.retryAfterMs : undefined });
+      log(`${user}: ${provider.model} failed: ${err?.message ?? err}`);
+    }
+    res.end();
+  };
+
+  return createServer((req, res) => {
+    const cors = corsHeaders(req.headers.origin);
+    const path = (req.url ?? '').split('?')[0];
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    if (path !== '/convert') return sendJson(res, 404, { error: 'Not found.' }, cors);
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'Use POST.' }, { ...cors, Allow: 'POST, OPTIONS' });
+
+    convert(req, res, cors).catch((err: any) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = err instanceof HttpError ? err.status : 500;
+      const headers: Record<string, string> = { ...cors, ...(status === 413 ? { Connection: 'close' } : {}) };
+      if (err instanceof HttpError && err.retryAfterMs !== undefined) headers['Retry-After'] = String(Math.ceil(err.retryAfterMs / 1000));
+      if (status === 500) log(`Request failed: ${err?.message ?? err}`);
+      sendJson(res, status, { error: status === 500 ? 'Internal proxy error.' : err.message }, headers);
+    });
+  });
+};
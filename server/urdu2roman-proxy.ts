@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { createProxyServer } from './proxyServer';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+
+// Entry point of the Gemini proxy (npm run build:proxy). Everything is configured through the
+// environment so the same build runs locally, in a container or behind a reverse proxy.
+
+const USAGE = `Environment:
+  GEMINI_API_KEY          Gemini API key held by the proxy (required)
+  PROXY_TOKENS            Comma-separated user:token pairs
+  PROXY_TOKENS_FILE       File with one user:token pair per line (# starts a comment)
+  PROXY_MODELS            Comma-separated models users may pick, default first (default: ${DEFAULT_GEMINI_MODEL})
+  PORT                    Port to listen on (default: 8787)
+  HOST                    Interface to listen on (default: 127.0.0.1)
+  PROXY_MAX_BODY_MB       Largest request body in MB (default: 20)
+  PROXY_RATE_LIMIT        Requests per minute per user (default: 30)
+  PROXY_ALLOWED_ORIGINS   Comma-separated browser origins allowed to call the proxy (default: *)
+  GEMINI_BASE_URL         Upstream Gemini endpoint (default: Google's)
+`;
+
+const log = (line: string) => process.stderr.write(line + '\n');
+
+const parseTokens = (lines: string[], source: string): [string, string][] =>
+  lines
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean)
+    .map(line => {
+      const split = line.indexOf(':');
+      if (split < 1 || split === line.length - 1) throw new Error(`${source}: expected user:token, got "${line}".`);
+      return [line.slice(split + 1).trim(), line.slice(0, split).trim()];
+    });
+
+const positive = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const n = parseFloat(value);
+  if (!(n > 0)) throw new Error(`${name} must be a number above zero.`);
+  return n;
+};
+
+const main = () => {
+  if (process.argv.includes('--help') || process.argv.includes('-h')) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set.');
+  const tokens = new Map([
+    ...parseTokens((process.env.PROXY_TOKENS ?? '').split(','), 'PROXY_TOKENS'),
+    ...(process.env.PROXY_TOKENS_FILE ? parseTokens(readFileSync(process.env.PROXY_TOKENS_FILE, 'utf8').split('\n'), process.env.PROXY_TOKENS_FILE) : [])
+  ]);
+  if (!tokens.size) throw new Error('No user tokens; set PROXY_TOKENS or PROXY_TOKENS_FILE.');
+
+  const models = (process.env.PROXY_MODELS || DEFAULT_GEMINI_MODEL).split(',').map(m => m.trim()).filter(Boolean);
+  if (!models.length) throw new Error('PROXY_MODELS lists no models.');
+
+  const port = positive('PORT', 8787);
+  const host = process.env.HOST || '127.0.0.1';
+  const server = createProxyServer({
+    apiKey,
+    models,
+    tokens,
+    maxBodyBytes: positive('PROXY_MAX_BODY_MB', 20) * 1024 * 1024,
+    requestsPerMinute: positive('PROXY_RATE_LIMIT', 30),
+    allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || '*').split(',').map(o => o.trim()).filter(Boolean),
+    baseUrl: process.env.GEMINI_BASE_URL || undefined,
+    log
+  });
+  server.listen(port, host, () => log(`Gemini proxy listening on http://${host}:${port} for ${tokens.size} user(s)`));
+  const stop = () => server.close(() => process.exit(0));
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+};
+
+try {
+  main();
+} catch (err: any) {
+  log(`Error: ${err.message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
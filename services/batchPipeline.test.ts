@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { runOrderedPipeline } from './batchPipeline';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tasks are delays in ms; a negative delay throws after that long, null pauses.
+const run = (tasks: (number | null)[], concurrency = 3) => {
+  const emitted: number[] = [];
+  const done = runOrderedPipeline(tasks, {
+    concurrency,
+    prepare: async task => task,
+    execute: async (task, _prepared, index) => {
+      if (task === null) return null;
+      await sleep(Math.abs(task));
+      if (task < 0) throw new Error(`task ${index} failed`);
+      return index;
+    },
+    onResult: (_task, result) => { emitted.push(result); },
+    shouldStop: () => false
+  });
+  return { done, emitted };
+};
+
+describe('runOrderedPipeline', () => {
+  it('hands results back in task order', async () => {
+    const { done, emitted } = run([30, 5, 15, 1, 10]);
+    expect(await done).toBe(true);
+    expect(emitted).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('delivers what finished before the first unfinished task when paused', async () => {
+    const { done, emitted } = run([5, 30, null, 1]);
+    expect(await done).toBe(false);
+    await sleep(40);
+    expect(emitted).toEqual([0, 1]);
+  });
+
+  it('delivers nothing once a task has thrown', async () => {
+    const { done, emitted } = run([30, -5, 10]);
+    await expect(done).rejects.toThrow('task 1 failed');
+    await sleep(40); // Let the workers still in flight finish
+    expect(emitted).toEqual([]);
+  });
+});
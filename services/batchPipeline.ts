@@ -0,0 +1,74 @@
+export interface PipelineOptions<T, P, R> {
+  concurrency: number;
+  prepare: (task: T, index: number) => Promise<P>;            // e.g. render pages; runs ahead of execute
+  execute: (task: T, prepared: P, index: number) => Promise<R | null>; // null = stopped (pause/abort)
+  onResult: (task: T, result: R, index: number) => void;       // always called in task order
+  shouldStop: () => boolean;
+  onFailure?: (error: unknown) => void;                        // First task error, as it happens; e.g. to abort the tasks in flight
+}
+
+/**
+ * Runs tasks with up to `concurrency` executions in flight and one batch pre-prepared per
+ * free slot, but hands results back strictly in order. Results that arrive ahead of a gap are
+ * held until the gap fills; if the run stops, anything after the first unfinished task is
+ * dropped so the caller's cursor never skips work. Once a task throws, nothing more is handed
+ * back: the run has failed, `onFailure` is told at once so the caller can cut the other tasks
+ * short, and the returned promise rejects with that error once every worker has settled.
+ * Resolves true when every task was delivered.
+ */
+export const runOrderedPipeline = async <T, P, R>(tasks: T[], opts: PipelineOptions<T, P, R>): Promise<boolean> => {
+  const prepared = new Map<number, Promise<P>>();
+  const results = new Map<number, R>();
+  let nextToStart = 0;
+  let nextToEmit = 0;
+  let stopped = false;
+  let failed = false; // Unlike a pause, results finished before the failure are not delivered either
+  let failure: unknown;
+
+  const ensurePrepared = (i: number) => {
+    if (i < tasks.length && !prepared.has(i)) {
+      const p = opts.prepare(tasks[i], i);
+      p.catch(() => {}); // Surfaced when the owning worker awaits it
+      prepared.set(i, p);
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped) {
+      if (opts.shouldStop()) { stopped = true; return; }
+      const i = nextToStart++;
+      if (i >= tasks.length) return;
+      ensurePrepared(i);
+      const input = await prepared.get(i)!;
+      prepared.delete(i);
+      ensurePrepared(nextToStart); // Pre-render the next batch while this one streams
+
+      const result = await opts.execute(tasks[i], input, i);
+      if (result === null) { stopped = true; return; }
+      if (failed) return;
+      results.set(i, result);
+      while (results.has(nextToEmit)) {
+        const r = results.get(nextToEmit)!;
+        results.delete(nextToEmit);
+        opts.onResult(tasks[nextToEmit], r, nextToEmit);
+        nextToEmit++;
+      }
+    }
+  };
+
+  const guarded = async () => {
+    try {
+      await worker();
+    } catch (err) {
+      stopped = true;
+      if (failed) return; // Tasks cut short after the first failure
+      failed = true;
+      failure = err;
+      opts.onFailure?.(err);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, opts.concurrency) }, guarded));
+  if (failed) throw failure;
+  return nextToEmit === tasks.length;
+};
@@ -0,0 +1,66 @@
+import { ChunkContext } from './transliterationProvider';
+
+// Rolling context between requests, so a book reads as one text rather than a string of
+// independent chunks: each request sees the end of the previous source and of its conversion,
+// plus the names spelled so far. The model is told the context is for reference only; when it
+// repeats the previous ending anyway, stitchChunks drops the repeat where chunks are joined.
+
+const CONTEXT_TAIL_CHARS = 400;
+const MAX_NAMES = 40;
+const MIN_SEAM_WORDS = 4; // Shorter overlaps are as likely to be a refrain as a repeat
+const SEAM_SCAN_WORDS = 80;
+
+// Last `chars` characters of `text`, starting on a word.
+export const tailOf = (text: string, chars = CONTEXT_TAIL_CHARS): string => {
+  const trimmed = text.trim();
+  if (trimmed.length <= chars) return trimmed;
+  const cut = trimmed.slice(-chars);
+  const space = cut.search(/\s/);
+  return (space >= 0 ? cut.slice(space) : cut).trim();
+};
+
+// Capitalised words that do not open a sentence: in Roman output these are names and places.
+const NAME = /(?<=[^.!?:"“'‘\s]\s+)[A-Z][a-z]+(?:[-'][A-Za-z]+)*\b/g;
+
+/** Adds the proper nouns in a chunk of Latin-script output to running counts. */
+export const collectNames = (text: string, counts: Map<string, number>) => {
+  for (const [name] of text.matchAll(NAME)) {
+    if (name.length < 3) continue;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+};
+
+export const topNames = (counts: Map<string, number>): string[] =>
+  [...counts].sort((a, b) => b[1] - a[1]).slice(0, MAX_NAMES).map(([name]) => name);
+
+export const buildContext = (previousSource: string, previousOutput: string, names: string[]): ChunkContext | undefined => {
+  const context = { source: tailOf(previousSource), output: tailOf(previousOutput), names };
+  return context.source || context.output || names.length ? context : undefined;
+};
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/** `next` without any opening words that repeat the end of `previous`. */
+export const dedupeSeam = (previous: string, next: string): string => {
+  const tail = previous.split(/\s+/).filter(Boolean).slice(-SEAM_SCAN_WORDS).map(normalize);
+  const head = [...next.matchAll(/\S+/g)].slice(0, SEAM_SCAN_WORDS);
+  for (let n = Math.min(tail.length, head.length); n >= MIN_SEAM_WORDS; n--) {
+    const overlap = head.slice(0, n);
+    if (overlap.every((word, i) => normalize(word[0]) === tail[tail.length - n + i])) {
+      const end = overlap[n - 1].index! + overlap[n - 1][0].length;
+      return next.slice(end).replace(/^\s+/, '');
+    }
+  }
+  return next;
+};
+
+/** Output slots ready to join, each seam checked against the previous non-empty slot. */
+export const stitchChunks = (chunks: string[]): string[] => {
+  let previous = '';
+  return chunks.map(text => {
+    if (!text.trim()) return text;
+    const stitched = previous ? dedupeSeam(previous, text) : text;
+    previous = text;
+    return stitched;
+  });
+};
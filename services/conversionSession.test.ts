@@ -0,0 +1,173 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { FileCheckpointStore } from '../cli/fileCheckpointStore';
+import { CheckpointStore } from './resumeStore';
+import { ConversionSession, SessionEvent, SessionSettings } from './conversionSession';
+import { DEFAULT_PREPROCESS } from './imagePreprocess';
+import { ConvertOptions, ProviderError, StreamInput, TransliterationProvider } from './transliterationProvider';
+
+// The first request fails with `error`; every later one succeeds.
+const failingFirst = (error: ProviderError): TransliterationProvider & { calls: number } => ({
+  id: 'stub',
+  label: 'Stub',
+  supportsImages: false,
+  calls: 0,
+  async *convertStream(inputs: StreamInput[]) {
+    if (this.calls++ === 0) throw error;
+    yield String(inputs[0]).replace(/\S+/g, 'roman');
+  }
+});
+
+const settings = (provider: TransliterationProvider | null): SessionSettings => ({
+  provider,
+  offline: false,
+  scheme: 'roman',
+  language: 'auto',
+  glossary: [],
+  ocrMode: 'off',
+  preprocess: DEFAULT_PREPROCESS,
+  batchSize: 2,
+  concurrency: 1,
+  carryContext: false,
+  budget: null
+});
+
+const runText = async (provider: TransliterationProvider, store: CheckpointStore | null = null, kb = 200) => {
+  const events: SessionEvent[] = [];
+  const session = new ConversionSession(store, event => events.push(event));
+  const paragraph = 'Plain words for the stub to convert.\n\n';
+  await session.open(new File([paragraph.repeat(Math.ceil(kb * 1024 / paragraph.length))], 'book.txt', { type: 'text/plain' }));
+  await session.run(settings(provider));
+  return { session, events };
+};
+
+describe('ConversionSession batch failures', () => {
+  it('skips a batch the provider refuses and converts the rest', async () => {
+    const provider = failingFirst(new ProviderError('HTTP 400: request rejected', { status: 400 }));
+    const { session, events } = await runText(provider);
+    expect(session.status).toBe('completed');
+    expect(session.skipped).toEqual([expect.objectContaining({ chunkIndex: 0, error: 'HTTP 400: request rejected' })]);
+    expect(session.chunks.length).toBeGreaterThan(1);
+    expect(session.chunks.slice(1).every(text => text.startsWith('roman'))).toBe(true);
+    expect(events.some(e => e.type === 'error')).toBe(false);
+  });
+
+  it('stops the run on an authentication error', async () => {
+    const provider = failingFirst(new ProviderError('HTTP 401: bad key', { status: 401 }));
+    const { session, events } = await runText(provider);
+    expect(session.status).toBe('error');
+    expect(provider.calls).toBe(1);
+    expect(events).toContainEqual({ type: 'error', message: 'Critical System Error: HTTP 401: bad key' });
+  });
+
+  it('stops the run when Gemini rejects the API key with a 400', async () => {
+    const message = 'AI Uplink Error: {"error":{"code":400,"message":"API key not valid. Please pass a valid API key.","status":"INVALID_ARGUMENT","details":[{"reason":"API_KEY_INVALID"}]}}';
+    const provider = failingFirst(new ProviderError(message, { status: 400 }));
+    const { session, events } = await runText(provider);
+    expect(session.status).toBe('error');
+    expect(provider.calls).toBe(1);
+    expect(session.skipped).toEqual([]);
+    expect(events).toContainEqual({ type: 'error', message: `Critical System Error: ${message}` });
+  });
+});
+
+describe('ConversionSession paged runs', () => {
+  it('aborts the batches in flight once one fails, and emits nothing after the error', async () => {
+    // Three sections of one paragraph each; the second fails while the first is still streaming.
+    const paragraph = (word: string) => `${word} `.repeat(300);
+    const rtf = `{\\rtf1\\ansi ${['alpha', 'beta', 'gamma'].map(paragraph).join('\\par\n')}}`;
+    let yielded = 0;
+    const provider: TransliterationProvider = {
+      id: 'stub',
+      label: 'Stub',
+      supportsImages: false,
+      async *convertStream(inputs: StreamInput[]) {
+        if (String(inputs[0]).startsWith('beta')) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+          throw new ProviderError('HTTP 401: bad key', { status: 401 });
+        }
+        for (let i = 0; i < 20; i++) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          yielded++;
+          yield 'roman ';
+        }
+      }
+    };
+    const events: SessionEvent[] = [];
+    const session = new ConversionSession(null, event => events.push(event));
+    await session.open(new File([rtf], 'book.rtf', { type: 'application/rtf' }));
+    await session.run({ ...settings(provider), batchSize: 1, concurrency: 2 });
+    expect(session.status).toBe('error');
+    expect(session.busy).toBe(false);
+    const error = events.findIndex(e => e.type === 'error');
+    expect(events[error]).toEqual({ type: 'error', message: 'Critical System Error: HTTP 401: bad key' });
+    const stopped = yielded;
+    await new Promise(resolve => setTimeout(resolve, 250));
+    expect(stopped).toBeLessThan(20);
+    expect(yielded).toBe(stopped);
+    expect(events.slice(error + 1)).toEqual([{ type: 'status', status: 'error' }]);
+  });
+});
+
+describe('ConversionSession offline', () => {
+  it('converts text with the local engine when no provider is configured', async () => {
+    const session = new ConversionSession(null, () => {});
+    await session.open(new File(['میں اسکول جا رہا ہوں۔'], 'note.txt', { type: 'text/plain' }));
+    expect(session.ready({ ...settings(null), offline: false })).toBe(false);
+    await session.run({ ...settings(null), offline: true });
+    expect(session.status).toBe('completed');
+    expect(session.chunks).toEqual(['Mein school ja raha hoon.']);
+  });
+});
+
+describe('ConversionSession budget', () => {
+  it('does not regenerate a chunk once the budget is spent', async () => {
+    // Every request bills a million input tokens of a priced model, $2.50.
+    const provider = {
+      id: 'stub',
+      label: 'Stub',
+      supportsImages: false,
+      model: 'gpt-4o',
+      calls: 0,
+      async *convertStream(inputs: StreamInput[], options: ConvertOptions = {}) {
+        this.calls++;
+        options.onUsage?.({ inputTokens: 1_000_000, outputTokens: 0 });
+        yield String(inputs[0]).replace(/\S+/g, 'roman');
+      }
+    };
+    const dir = await mkdtemp(path.join(tmpdir(), 'u2r-session-'));
+    try {
+      const { session, events } = await runText(provider, new FileCheckpointStore(dir), 1);
+      expect(session.status).toBe('completed');
+      const calls = provider.calls;
+      expect(await session.regenerate(0, { ...settings(provider), budget: 1 })).toBeNull();
+      expect(provider.calls).toBe(calls);
+      expect(events.at(-1)).toMatchObject({ type: 'error', message: expect.stringMatching(/^Budget of \$1\.00 reached/) });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ConversionSession checkpoints', () => {
+  it('resolves clearCheckpoint only once the store has cleared it', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'u2r-session-'));
+    try {
+      const store = new FileCheckpointStore(dir);
+      const { session } = await runText(failingFirst(new ProviderError('HTTP 400', { status: 400 })), store, 1);
+      let cleared = false;
+      const clear = store.clear.bind(store);
+      store.clear = async (key: string) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await clear(key);
+        cleared = true;
+      };
+      await session.clearCheckpoint();
+      expect(cleared).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
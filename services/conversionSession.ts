@@ -0,0 +1,841 @@
+import { BatchSource, ChunkResult, ConversionStats, ExportFormat, GlossaryEntry, OcrMode, OutputScheme, PageRouting, PreprocessSettings, QualityFlag, QualityIssue, ResumeMetadata, ReviewStatus, SkippedBatch, SourceLanguage, SourceScript, TokenUsage } from '../types';
+import { LocalTransliterator } from './localTransliterator';
+import { ChunkContext, ConvertOptions, isFatalError, ProviderError, StreamInput, TransliterationProvider } from './transliterationProvider';
+import { parsePages } from './pageAlignment';
+import { CheckpointStore, ChunkWrite, ResumeStore } from './resumeStore';
+import { convertWithRetry, RetriesExhaustedError } from './retry';
+import { runOrderedPipeline } from './batchPipeline';
+import { DEFAULT_SCHEME, schemeFor } from './schemes';
+import { detectFormat, isPagedFormat, PagedDocument } from './inputAdapters';
+import { chunkTextFileInWorker, loadImageScanInWorker, openDocumentInWorker } from './documentWorkerClient';
+import { EXPORT_FORMATS, ExportSection, exportDocument } from './exporters';
+import { addUsage, EMPTY_USAGE, estimateCost, estimateImageRun, estimatePagedRun, estimateTextRun, formatCost, PageSample, pricingFor } from './usage';
+import { checkOutput, QUALITY_LABELS } from './qualityChecks';
+import { applyGlossary, GlossaryCounts, mergeCounts, relevantEntries } from './glossary';
+import { buildContext, collectNames, stitchChunks, topNames } from './contextCarry';
+import { detectSource } from './languages';
+
+// The conversion pipeline without a UI: chunking, page batching, retries, quality checks,
+// checkpoints and export. The app and the command-line tool both drive a ConversionSession and
+// render the events it emits.
+
+const DEFAULT_CHUNK_SIZE_KB = 128; // Upper bound per request; chunks break earlier on sentence/paragraph ends
+const MAX_PAGE_REPAIR_ROUNDS = 2; // Re-requests for pages the model left out of a delimited batch
+const MAX_QUALITY_RETRIES = 1; // Re-requests for a batch whose output fails the quality checks
+const DRY_RUN_SAMPLE_PAGES = 3; // Pages read up front to judge text density and how many need OCR
+
+// A run of consecutive pages (or sections) from a PagedDocument, ready to send.
+interface PageBatch {
+  inputs: StreamInput[];
+  originals: string[]; // Preview snippets
+  pages: number[]; // Source page of each input; a split spread contributes two
+  records: { original?: string; thumbnail?: string }[]; // Full originals for the review editor
+  routes: Record<number, PageRouting>; // Every page in the range, including blank ones
+}
+
+type CheckpointCursor = Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages' | 'fileName' | 'fileSize' | 'fileHash' | 'scheme' | 'language' | 'glossaryCounts' | 'flagged' | 'routes' | 'preprocess' | 'usage' | 'updatedAt'>;
+
+/** Everything a run reads from the caller; passed to each call so changes apply to the next one. */
+export interface SessionSettings {
+  provider: TransliterationProvider | null; // Configured model; scans always go to it
+  offline: boolean; // Text goes to the local rules engine instead
+  scheme: OutputScheme;
+  language: SourceLanguage | 'auto'; // Source language for arabic-source schemes; 'auto' detects it from the first text read
+  glossary: GlossaryEntry[];
+  ocrMode: OcrMode;
+  preprocess: PreprocessSettings;
+  batchSize: number; // Pages per request
+  concurrency: number; // Requests in flight for paged documents
+  carryContext: boolean; // Send the end of the previous chunk and the names used so far with each request
+  rangeStart?: number;
+  rangeEnd?: number;
+  budget: number | null; // USD per job
+}
+
+export type SessionStatus = ConversionStats['status'];
+
+export type SessionEvent =
+  | { type: 'status'; status: SessionStatus }
+  | { type: 'progress'; processed: number; total: number; eta: number | null } // Pages, or bytes for text files
+  | { type: 'output'; results: ChunkResult[] } // Newly converted chunks, for the live feed
+  | { type: 'stream'; original: string; text: string } // Text streaming in for the earliest unfinished batch
+  | { type: 'attempt-failed'; error: string }
+  | { type: 'skipped'; skipped: SkippedBatch[] }
+  | { type: 'flagged'; flagged: QualityFlag[] }
+  | { type: 'routes'; routes: Record<number, PageRouting> }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'source-detected'; script: SourceScript; language: SourceLanguage | null } // From the first text of a run in 'auto' mode
+  | { type: 'network-lost' } // Paused because a request needs the network; resume once back online
+  | { type: 'error'; message: string };
+
+/** Settings a checkpoint was written with, for the caller to apply before resuming it. */
+export interface RestoredSettings {
+  ocrMode: OcrMode;
+  scheme: OutputScheme;
+  preprocess?: PreprocessSettings;
+  rangeStart?: number;
+  rangeEnd?: number;
+}
+
+const fingerprint = async (file: File): Promise<string | null> => {
+  try {
+    return ResumeStore.keyFor(file, await ResumeStore.hashFile(file));
+  } catch (err) {
+    console.warn('Checkpoint hashing unavailable:', err);
+    return null;
+  }
+};
+
+const deviceOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Remaining-time estimate from this run's measured throughput, not from overall progress.
+const estimateRemaining = (startTime: number, doneThisRun: number, remaining: number) => {
+  const elapsed = (Date.now() - startTime) / 1000;
+  return doneThisRun > 0 && elapsed > 0 ? remaining / (doneThisRun / elapsed) : null;
+};
+
+export class ConversionSession {
+  file: File | null = null;
+  key: string | null = null; // Checkpoint key of `file`; null when it could not be hashed
+  status: SessionStatus = 'idle';
+  chunks: string[] = []; // Output slots; a skipped batch keeps its empty slot
+  chunkPages: (number | null)[] = []; // Source page per output slot (paged documents only)
+  skipped: SkippedBatch[] = [];
+  flagged: QualityFlag[] = [];
+  routes: Record<number, PageRouting> = {};
+  usage: TokenUsage = EMPTY_USAGE;
+  processed = 0; // Last page, or byte offset, the checkpoint covers
+  total = 0;
+  language: SourceLanguage | null = null; // Detected source language, kept with the checkpoint
+
+  private doc: PagedDocument | null = null;
+  private settings: SessionSettings | null = null; // Of the latest run, for checkpoint writes
+  private cursor: CheckpointCursor | null = null;
+  private glossaryCounts: GlossaryCounts = {};
+  private names = new Map<string, number>(); // Proper nouns in the output so far, for context carry-over
+  private detecting = true; // Until a sample long enough to judge the source has been read
+  private controller: AbortController | null = null;
+  private paused = false;
+  private running = false;
+  private local: TransliterationProvider = new LocalTransliterator();
+  // Live stream buffers per in-flight batch; only the earliest unfinished one is emitted.
+  private liveSlots = new Map<number, { original: string; text: string }>();
+  private visibleSlot = 0;
+
+  constructor(readonly store: CheckpointStore | null, private emit: (event: SessionEvent) => void) {}
+
+  get busy() {
+    return this.running;
+  }
+
+  get unitLabel() {
+    return this.doc?.unitLabel ?? 'Page';
+  }
+
+  /** Makes `file` the session's file and returns its checkpoint, if one was saved. */
+  async open(file: File): Promise<ResumeMetadata | null> {
+    this.reset();
+    this.file = file;
+    const key = await fingerprint(file);
+    if (this.file !== file) return null;
+    this.key = key;
+    if (!this.store || !key) return null;
+    try {
+      const data = await this.store.load(key);
+      return this.file === file ? data : null;
+    } catch (err) {
+      console.warn('Checkpoint lookup failed:', err);
+      return null;
+    }
+  }
+
+  /** Picks up from a checkpoint of the open file. */
+  restore(data: ResumeMetadata): RestoredSettings {
+    const done = data.lastProcessedIndex >= data.totalItems;
+    this.chunks = [...data.accumulatedContent];
+    this.chunkPages = data.accumulatedPages ?? data.accumulatedContent.map(() => null);
+    this.skipped = data.skipped ?? [];
+    this.flagged = data.flagged ?? [];
+    this.routes = data.routes ?? {};
+    this.glossaryCounts = data.glossaryCounts ?? {};
+    this.usage = data.usage ?? EMPTY_USAGE;
+    this.language = data.language ?? null;
+    const { accumulatedContent: _content, accumulatedPages: _pages, fileName: _name, fileSize: _size, fileHash: _hash, scheme, language: _language, glossaryCounts: _counts, flagged: _flagged, routes: _routes, preprocess, usage: _usage, updatedAt: _at, useOCR: legacyOCR, ...cursor } = data;
+    const ocrMode = data.ocrMode ?? (legacyOCR ? 'always' : 'off');
+    this.cursor = { ...cursor, ocrMode };
+    this.processed = data.lastProcessedIndex;
+    this.total = data.totalItems;
+    this.setStatus(done ? 'completed' : 'paused');
+    return { ocrMode, scheme: scheme ?? DEFAULT_SCHEME, preprocess, rangeStart: data.rangeStart, rangeEnd: data.rangeEnd };
+  }
+
+  /** Resolves once the store has dropped the checkpoint, so a run started after it writes a fresh one. */
+  async clearCheckpoint(): Promise<void> {
+    if (this.key) await this.store?.clear(this.key).catch(() => {});
+  }
+
+  /** Stops any request in flight and forgets all output, keeping the open file. */
+  reset() {
+    this.controller?.abort();
+    this.running = false;
+    this.paused = false;
+    this.chunks = [];
+    this.chunkPages = [];
+    this.doc?.close?.();
+    this.doc = null;
+    this.skipped = [];
+    this.flagged = [];
+    this.routes = {};
+    this.glossaryCounts = {};
+    this.names = new Map();
+    this.language = null;
+    this.detecting = true;
+    this.usage = EMPTY_USAGE;
+    this.cursor = null;
+    this.processed = 0;
+    this.total = 0;
+    this.setStatus('idle');
+  }
+
+  pause() {
+    this.paused = true;
+    this.setStatus('paused');
+  }
+
+  /** A reviewer's correction to one output slot. */
+  editChunk(index: number, text: string) {
+    this.chunks[index] = text;
+  }
+
+  /** The open file as a PagedDocument, opened once and kept for the session. */
+  async openDocument(file: File): Promise<PagedDocument> {
+    const doc = this.doc ?? await openDocumentInWorker(file);
+    // The dry-run estimate may still be opening a file the caller has since replaced.
+    if (this.file === file) this.doc = doc;
+    return doc;
+  }
+
+  /** Whether `settings` name an engine for text: the configured model, or the local rules engine offline. */
+  ready(settings: SessionSettings): boolean {
+    return !!settings.provider || settings.offline || deviceOffline();
+  }
+
+  // Text-only inputs can run on the local rules engine; images always need the vision model.
+  textProvider(settings: SessionSettings): TransliterationProvider {
+    if (settings.offline || deviceOffline()) return this.local;
+    if (!settings.provider) throw new Error('No provider is configured. Check the provider settings.');
+    return settings.provider;
+  }
+
+  describeSource(source: BatchSource): string {
+    return source.kind === 'pdf' ? `${this.unitLabel}s ${source.startPage}–${source.endPage}`
+      : source.kind === 'txt' ? `Bytes ${source.startByte.toLocaleString()}–${source.endByte.toLocaleString()}`
+      : 'Image';
+  }
+
+  // Flagged batches with what the checks found, for the quality report download.
+  qualityReport(): string[] {
+    if (!this.flagged.length) return ['All batches passed the quality checks.'];
+    return [
+      `${this.flagged.length} chunk(s) flagged for review:`,
+      ...this.flagged.map(f => `${this.describeSource(f.source)}: ${f.issues.map(i => `${QUALITY_LABELS[i.kind]} (${i.detail})`).join('; ')}`)
+    ];
+  }
+
+  // Tokens the rest of `file` should need, from its size or from a few sampled pages.
+  async estimate(file: File, settings: SessionSettings): Promise<TokenUsage> {
+    const format = detectFormat(file.name, file.type);
+    if (format === 'image') return estimateImageRun();
+    if (!isPagedFormat(format)) {
+      return settings.offline ? EMPTY_USAGE : estimateTextRun(Math.max(0, file.size - this.processed), DEFAULT_CHUNK_SIZE_KB * 1024);
+    }
+    const doc = await this.openDocument(file);
+    const { preprocess, ocrMode } = settings;
+    const start = Math.max(1, settings.rangeStart ?? 1);
+    const end = Math.min(doc.pageCount, settings.rangeEnd ?? doc.pageCount);
+    const first = Math.max(start, this.processed + 1);
+    const sample: PageSample = { pages: 0, textPages: 0, imagePages: 0, chars: 0, charPages: 0 };
+    // Read with OCR off so the sample costs no rendering; the classifier's verdict says what AUTO would scan.
+    for (let num = first; num <= Math.min(end, first + DRY_RUN_SAMPLE_PAGES - 1); num++) {
+      const { text, images, reason } = await doc.loadPage(num, { ocr: 'off', preprocess, budgetBytes: preprocess.maxRequestKB * 1024, script: schemeFor(settings.scheme).sourceScript });
+      sample.pages++;
+      if (text?.trim() && !reason) { sample.chars += text.length; sample.charPages++; }
+      if (images?.length || (doc.renderScan && (ocrMode === 'always' || (ocrMode === 'auto' && reason)))) sample.imagePages++;
+      else if (text?.trim() && !settings.offline) sample.textPages++;
+    }
+    return estimatePagedRun(Math.max(0, end - first + 1), sample, settings.batchSize);
+  }
+
+  budgetReached(settings: SessionSettings): boolean {
+    const cost = estimateCost(this.usage, pricingFor(settings.provider?.model));
+    return settings.budget !== null && cost !== null && cost >= settings.budget;
+  }
+
+  private budgetError(settings: SessionSettings) {
+    return `Budget of ${formatCost(settings.budget)} reached (${formatCost(estimateCost(this.usage, pricingFor(settings.provider?.model)))} spent). Raise the budget to continue.`;
+  }
+
+  // Shared guard for run, retrySkipped and regenerate: one request stream at a time, within budget.
+  private begin(settings: SessionSettings): AbortSignal | null {
+    if (!this.file || this.running || !this.ready(settings)) return null;
+    if (this.budgetReached(settings)) {
+      this.emit({ type: 'error', message: this.budgetError(settings) });
+      return null;
+    }
+    this.settings = settings;
+    this.running = true;
+    this.paused = false;
+    this.controller = new AbortController();
+    this.collectAllNames();
+    return this.controller.signal;
+  }
+
+  /** Converts the open file from where the last run or checkpoint stopped. */
+  async run(settings: SessionSettings): Promise<void> {
+    const signal = this.begin(settings);
+    if (!signal) return;
+    const controller = this.controller!;
+    const file = this.file!;
+    const { ocrMode, preprocess } = settings;
+    const startTime = Date.now();
+    let failed = false; // A batch threw; the batches still in flight are aborted and the error reported
+    this.setStatus('processing');
+
+    try {
+      const format = detectFormat(file.name, file.type);
+      this.key = this.key ?? await fingerprint(file);
+
+      const finishBatch = (source: BatchSource, result: { text: string; error: string | null; issues: QualityIssue[] }) => {
+        const index = this.chunks.length;
+        this.chunks.push(result.text);
+        this.chunkPages.push(null);
+        this.noteNames(result.text);
+        if (result.error) {
+          this.setSkipped([...this.skipped, { chunkIndex: index, source, error: result.error }]);
+        }
+        if (result.issues.length) this.setFlagged([index], [{ chunkIndex: index, source, issues: result.issues }]);
+        return { index, converted: result.error ? `[Skipped: ${result.error}]` : result.text, review: (result.issues.length ? 'flagged' : 'pending') as ReviewStatus };
+      };
+
+      if (format === 'image') {
+        this.setProgress(0, 1, null);
+        const scans = await loadImageScanInWorker(file, preprocess, preprocess.maxRequestKB * 1024, signal);
+        const result = await this.runBatch(this.visionProvider(settings), scans.map(({ data, mimeType }) => ({ data, mimeType })), "Processing Image...");
+        if (result && !signal.aborted) {
+          this.chunks = [];
+          this.chunkPages = [];
+          const { index, converted, review } = finishBatch({ kind: 'image' }, result);
+          const thumbnail = scans[0].thumbnail;
+          this.writeCheckpoint({ lastProcessedIndex: 1, totalItems: 1, ocrMode }, [{ index, text: result.text, source: { kind: 'image' }, thumbnail, review }]);
+          this.setProgress(1, 1, 0);
+          this.emit({ type: 'output', results: [{ original: "Image Source", converted, usage: result.usage }] });
+        }
+      } else if (isPagedFormat(format)) {
+        const doc = await this.openDocument(file);
+        const totalPages = doc.pageCount;
+        if (!totalPages) throw new Error('No text or pages found in this document.');
+        const start = Math.max(1, settings.rangeStart ?? 1);
+        const end = Math.min(totalPages, settings.rangeEnd ?? totalPages);
+        const range = { ocrMode, totalItems: end, rangeStart: start, rangeEnd: end };
+        const first = Math.max(start, this.processed + 1);
+        this.setProgress(this.processed, end, null);
+        const tasks: { from: number; to: number }[] = [];
+        for (let p = first; p <= end; p += settings.batchSize) tasks.push({ from: p, to: Math.min(p + settings.batchSize - 1, end) });
+        this.visibleSlot = 0;
+        let previousSource = '';
+
+        await runOrderedPipeline(tasks, {
+          // Each request needs the one before it finished to carry its context over.
+          concurrency: settings.carryContext ? 1 : settings.concurrency,
+          shouldStop: () => signal.aborted || this.paused,
+          onFailure: () => { failed = true; controller.abort(); },
+          prepare: ({ from, to }) => this.loadPageBatch(doc, from, to),
+          execute: async (_task, batch, slot) => {
+            if (!batch.inputs.length) return { batch, result: null };
+            const result = await this.convertPages(this.pageProvider(batch), batch, slot, this.contextFor(this.chunks.length, previousSource));
+            return result && !signal.aborted ? { batch, result } : null;
+          },
+          onResult: ({ from, to }, { batch, result }, slot) => {
+            this.visibleSlot = slot + 1;
+            this.showSlot(slot + 1);
+            // One output slot per page in range, blank pages included, so page N always maps to a slot.
+            const base = this.chunks.length;
+            this.setRoutes(batch.routes);
+            const chunks: ChunkWrite[] = [];
+            const previews: ChunkResult[] = [];
+            const flags: QualityFlag[] = [];
+            for (let page = from; page <= to; page++) {
+              const text = result?.pages.get(page) ?? '';
+              const at = batch.pages.indexOf(page);
+              const source = { kind: 'pdf' as const, startPage: page, endPage: page };
+              // The checks judge the whole batch, so every page that came back carries its issues.
+              const flagged = !!text && !!result?.issues.length;
+              if (flagged) flags.push({ chunkIndex: base + page - from, source, issues: result!.issues });
+              this.chunks.push(text);
+              this.chunkPages.push(page);
+              this.noteNames(text);
+              chunks.push({ index: base + page - from, text, page, source, ...batch.records[at], ...(flagged ? { review: 'flagged' as const } : {}) });
+              if (at >= 0) {
+                // The batch's tokens are shown once, on its first page.
+                previews.push({ original: batch.originals[at], converted: text || `[Skipped: ${result?.error}]`, page, usage: previews.length ? undefined : result?.usage });
+              }
+            }
+            if (result?.error) {
+              const failed = result.missing.length === new Set(batch.pages).size
+                ? [{ chunkIndex: base, source: { kind: 'pdf' as const, startPage: from, endPage: to }, error: result.error }]
+                : result.missing.map(page => ({ chunkIndex: base + page - from, source: { kind: 'pdf' as const, startPage: page, endPage: page }, error: result.error! }));
+              this.setSkipped([...this.skipped, ...failed]);
+            }
+            if (flags.length) this.setFlagged([], flags);
+            if (batch.inputs.length) previousSource = batch.records[batch.records.length - 1].original ?? '';
+            this.writeCheckpoint({ ...range, lastProcessedIndex: to }, chunks);
+            this.setProgress(to, end, estimateRemaining(startTime, to - first + 1, end - to));
+            this.emit({ type: 'output', results: previews });
+          }
+        });
+      } else {
+        // Large Text files handling (GB support via streamed, UTF-8-safe chunking)
+        let offset = this.processed;
+        const firstOffset = offset;
+        const total = file.size;
+        this.setProgress(offset, total, null);
+        const sz = DEFAULT_CHUNK_SIZE_KB * 1024;
+        let previousSource = '';
+
+        for await (const { text: chunk, startByte, endByte } of chunkTextFileInWorker(file, { startByte: offset, targetBytes: sz, signal })) {
+          if (signal.aborted || this.paused) break;
+          if (chunk.trim()) {
+            const context = this.contextFor(this.chunks.length, previousSource);
+            const result = await this.runBatch(this.textProvider(settings), [chunk], chunk.slice(0, 400), undefined, { context });
+            if (result && !signal.aborted) {
+              const { index, converted, review } = finishBatch({ kind: 'txt', startByte, endByte }, result);
+              previousSource = chunk;
+              offset = endByte;
+              this.writeCheckpoint({ lastProcessedIndex: offset, totalItems: total, ocrMode }, [{ index, text: result.text, source: { kind: 'txt', startByte, endByte }, original: chunk, review }]);
+              this.setProgress(offset, total, estimateRemaining(startTime, offset - firstOffset, total - offset));
+              this.emit({ type: 'output', results: [{ original: chunk.slice(0, 100), converted, usage: result.usage }] });
+            }
+          } else {
+            offset = endByte;
+            this.writeCheckpoint({ lastProcessedIndex: offset, totalItems: total, ocrMode });
+            this.setProgress(offset, total, estimateRemaining(startTime, offset - firstOffset, total - offset));
+          }
+        }
+      }
+
+      if (!signal.aborted && !this.paused) this.setStatus('completed');
+    } catch (err: any) {
+      // Stopping cancels page loads in the document worker; that is not a failure.
+      if (signal.aborted && !failed) return;
+      this.emit({ type: 'error', message: `Critical System Error: ${err.message}` });
+      this.setStatus('error');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** Second pass over batches that exhausted their retries; results go back into their reserved slots. */
+  async retrySkipped(settings: SessionSettings): Promise<void> {
+    if (!this.skipped.length) return;
+    const signal = this.begin(settings);
+    if (!signal) return;
+    const file = this.file!;
+    const prevStatus = this.status;
+    this.setStatus('processing');
+
+    try {
+      for (const batch of [...this.skipped]) {
+        if (signal.aborted || this.paused) break;
+        const { source } = batch;
+        if (source.kind === 'pdf') {
+          const doc = await this.openDocument(file);
+          const pageBatch = await this.loadPageBatch(doc, source.startPage, source.endPage);
+          const result = await this.convertPages(this.pageProvider(pageBatch), pageBatch, undefined, this.contextFor(batch.chunkIndex));
+          if (!result || signal.aborted) break;
+          this.setRoutes(pageBatch.routes);
+          this.applyPages(batch.chunkIndex, source.startPage, result.pages, pageBatch, result.issues);
+          const others = this.skipped.filter(b => b !== batch);
+          const still = result.missing.map(page => ({ chunkIndex: batch.chunkIndex + page - source.startPage, source: { kind: 'pdf' as const, startPage: page, endPage: page }, error: result.error! }));
+          this.setSkipped([...others, ...still].sort((a, b) => a.chunkIndex - b.chunkIndex));
+          continue;
+        }
+        const { provider, inputs } = await this.loadSourceInputs(file, source);
+        const result = await this.runBatch(provider, inputs, `Retrying ${this.describeSource(source)}`, undefined, { context: this.contextFor(batch.chunkIndex) });
+        if (!result || signal.aborted) break;
+        const others = this.skipped.filter(b => b !== batch);
+        if (result.error) {
+          this.setSkipped([...others, { ...batch, error: result.error }].sort((a, b) => a.chunkIndex - b.chunkIndex));
+        } else {
+          this.chunks[batch.chunkIndex] = result.text;
+          this.noteNames(result.text);
+          this.setSkipped(others);
+          this.setFlagged([batch.chunkIndex], result.issues.length ? [{ chunkIndex: batch.chunkIndex, source, issues: result.issues }] : []);
+          this.writeCheckpoint(null, [{ index: batch.chunkIndex, text: result.text, source, review: result.issues.length ? 'flagged' : 'pending' }]);
+          this.emit({ type: 'output', results: [{ original: this.describeSource(source), converted: result.text }] });
+        }
+      }
+      this.emit({ type: 'stream', original: '', text: '' });
+      if (!signal.aborted && !this.paused) this.setStatus(prevStatus === 'paused' ? 'paused' : 'completed');
+    } catch (err: any) {
+      if (signal.aborted) return;
+      this.emit({ type: 'error', message: `Critical System Error: ${err.message}` });
+      this.setStatus('error');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Re-converts one output slot from its source (page, byte range or image). Resolves with the
+  // new text, or null if the request was stopped; throws when the chunk cannot be re-run.
+  async regenerate(index: number, settings: SessionSettings): Promise<string | null> {
+    const file = this.file;
+    if (!file || this.running || !this.ready(settings)) return null;
+    const page = this.chunkPages[index];
+    const record = this.key ? await this.store?.getChunk(this.key, index) : undefined;
+    const source: BatchSource | undefined = page != null
+      ? { kind: 'pdf', startPage: page, endPage: page }
+      : record?.source ?? (file.type.startsWith('image/') ? { kind: 'image' } : undefined);
+    if (!source) throw new Error('The source of this chunk was not recorded. Re-run the file instead.');
+
+    if (!this.begin(settings)) return null;
+    try {
+      let text: string;
+      if (source.kind === 'pdf') {
+        const doc = await this.openDocument(file);
+        const batch = await this.loadPageBatch(doc, source.startPage, source.startPage);
+        if (!batch.inputs.length) throw new Error(`${doc.unitLabel} ${source.startPage} is empty (${batch.routes[source.startPage]?.reason}). Set Vision OCR to ALL to re-run it as a scan.`);
+        const result = await this.convertPages(this.pageProvider(batch), batch, undefined, this.contextFor(index));
+        this.setRoutes(batch.routes);
+        if (!result) return null;
+        if (result.error) throw new Error(result.error);
+        this.applyPages(index, source.startPage, result.pages, batch, result.issues);
+        text = result.pages.get(source.startPage) ?? '';
+      } else {
+        const { provider, inputs } = await this.loadSourceInputs(file, source);
+        const result = await this.runBatch(provider, inputs, `Regenerating ${this.describeSource(source)}`, undefined, { context: this.contextFor(index) });
+        if (!result) return null;
+        if (result.error) throw new Error(result.error);
+        text = result.text;
+        this.chunks[index] = text;
+        this.setFlagged([index], result.issues.length ? [{ chunkIndex: index, source, issues: result.issues }] : []);
+        this.writeCheckpoint(null, [{ index, text, source, review: result.issues.length ? 'flagged' : 'pending' }]);
+      }
+      this.setSkipped(this.skipped.filter(b => b.chunkIndex !== index));
+      return text;
+    } catch (err) {
+      if (this.controller.signal.aborted) return null;
+      throw err;
+    } finally {
+      this.emit({ type: 'stream', original: '', text: '' });
+      this.running = false;
+    }
+  }
+
+  /** The output slots as they are joined for export; with context carry-over, text the model repeated from the previous slot is dropped. */
+  stitchedChunks(settings: SessionSettings): string[] {
+    return settings.carryContext ? stitchChunks(this.chunks) : this.chunks;
+  }
+
+  /** Renders the session's output in `format`, named after the source file. */
+  async buildExport(format: ExportFormat, settings: SessionSettings): Promise<{ blob: Blob; fileName: string }> {
+    const file = this.file!;
+    const info = EXPORT_FORMATS.find(f => f.id === format)!;
+    const originals = info.bilingual && this.key && this.store ? await this.store.getOriginals(this.key) : new Map();
+    const sections: ExportSection[] = this.stitchedChunks(settings).map((text, i) => ({ text, page: this.chunkPages[i], ...originals.get(i) }));
+    const engine = settings.offline ? this.local : settings.provider;
+    const language = schemeFor(settings.scheme).sourceScript === 'arabic' ? this.sourceLanguage() : undefined;
+    const cursor = this.cursor;
+    const base = file.name.replace(/\.[^/.]+$/, "");
+    const blob = await exportDocument(format, sections, {
+      title: base,
+      sourceFile: file.name,
+      pageRange: cursor?.rangeStart ? `${cursor.rangeStart}-${cursor.rangeEnd ?? cursor.totalItems}` : undefined,
+      provider: engine ? `${engine.label}${engine.model ? ` (${engine.model})` : ''}` : 'Unknown',
+      scheme: settings.scheme,
+      language,
+      date: new Date(),
+      notes: this.glossaryReport(settings.glossary)
+    });
+    return { blob, fileName: `${schemeFor(settings.scheme).rtl ? 'Urdu' : 'Roman'}_${base}${info.bilingual ? '_bilingual' : ''}.${info.extension}` };
+  }
+
+  // One line per glossary term that was corrected, for the end of every export.
+  private glossaryReport(glossary: GlossaryEntry[]): string[] {
+    const counts = Object.entries<number>(this.glossaryCounts).sort((a, b) => b[1] - a[1]);
+    if (!counts.length) return glossary.length ? ['No glossary replacements were needed.'] : [];
+    const total = counts.reduce((sum, [, n]) => sum + n, 0);
+    return [`${total} replacement(s) across ${counts.length} term(s):`, ...counts.map(([term, n]) => `${term}: ${n}`)];
+  }
+
+  private setStatus(status: SessionStatus) {
+    this.status = status;
+    this.emit({ type: 'status', status });
+  }
+
+  private setProgress(processed: number, total: number, eta: number | null) {
+    this.processed = processed;
+    this.total = total;
+    this.emit({ type: 'progress', processed, total, eta });
+  }
+
+  private setRoutes(routes: Record<number, PageRouting>) {
+    this.routes = { ...this.routes, ...routes };
+    this.emit({ type: 'routes', routes: this.routes });
+  }
+
+  private setSkipped(skipped: SkippedBatch[]) {
+    this.skipped = skipped;
+    this.emit({ type: 'skipped', skipped });
+  }
+
+  // Replaces the quality flags of the given output slots with the latest results.
+  private setFlagged(slots: number[], flags: QualityFlag[]) {
+    this.flagged = [...this.flagged.filter(f => !slots.includes(f.chunkIndex)), ...flags].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    this.emit({ type: 'flagged', flagged: this.flagged });
+  }
+
+  // Persist the cursor (and a finished batch, if any) so a reload can pick up from here.
+  private writeCheckpoint(meta: CheckpointCursor | null, chunks: ChunkWrite[] = []) {
+    const { key, file, settings } = this;
+    if (!key || !file || !settings || !this.store) return;
+    if (meta) this.cursor = meta;
+    if (!this.cursor) return;
+    this.store.checkpoint(key, {
+      ...this.cursor,
+      fileName: file.name,
+      fileSize: file.size,
+      fileHash: key.slice(key.lastIndexOf(':') + 1),
+      skipped: this.skipped,
+      flagged: this.flagged,
+      routes: this.routes,
+      preprocess: settings.preprocess,
+      scheme: settings.scheme,
+      language: this.language ?? undefined,
+      glossaryCounts: this.glossaryCounts,
+      usage: this.usage,
+      updatedAt: Date.now()
+    }, chunks).catch(err => console.warn('Checkpoint write failed:', err));
+  }
+
+  private showSlot(slot: number) {
+    if (slot !== this.visibleSlot) return;
+    const live = this.liveSlots.get(slot);
+    this.emit({ type: 'stream', original: live?.original ?? '', text: live?.text ?? '' });
+  }
+
+  // Adds a request's tokens to the session total and pauses the run once the budget is spent.
+  private recordUsage(usage: TokenUsage) {
+    this.usage = addUsage(this.usage, usage);
+    this.emit({ type: 'usage', usage: this.usage });
+    const settings = this.settings!;
+    if (this.budgetReached(settings) && !this.paused) {
+      this.pause();
+      this.emit({ type: 'error', message: this.budgetError(settings) });
+    }
+  }
+
+  // A request that needs the network while the device is offline pauses the run instead of using
+  // up its retries, so nothing is skipped; the caller resumes it when the connection returns.
+  private lostNetwork(provider: TransliterationProvider): boolean {
+    if (provider === this.local || !deviceOffline()) return false;
+    if (!this.paused) {
+      this.emit({ type: 'network-lost' });
+      this.pause();
+    }
+    return true;
+  }
+
+  // The source language for a request: the one picked, or in 'auto' mode the one detected from
+  // the first text of the run (or its checkpoint). Scans leave it open until text comes along.
+  private sourceLanguage(inputs: StreamInput[] = []): SourceLanguage | undefined {
+    const { language, scheme } = this.settings!;
+    if (schemeFor(scheme).sourceScript !== 'arabic') return undefined;
+    if (language !== 'auto') return language;
+    if (this.detecting && !this.language) {
+      const detected = detectSource(inputs.filter((input): input is string => typeof input === 'string').join('\n'));
+      if (detected) {
+        this.detecting = false;
+        this.language = detected.language;
+        this.emit({ type: 'source-detected', script: detected.script, language: detected.language });
+      }
+    }
+    return this.language ?? undefined;
+  }
+
+  // Names are only gathered from Latin-script output, where capitals mark them.
+  private noteNames(text: string) {
+    const { carryContext, scheme } = this.settings!;
+    if (carryContext && schemeFor(scheme).latin) collectNames(text, this.names);
+  }
+
+  // Recounts the names from the output so far, which may come from a checkpoint.
+  private collectAllNames() {
+    this.names = new Map();
+    this.chunks.forEach(text => this.noteNames(text));
+  }
+
+  // Context for the request that fills slot `index`: the nearest earlier output and, during a
+  // run, the source text it was converted from.
+  private contextFor(index: number, previousSource = ''): ChunkContext | undefined {
+    if (!this.settings?.carryContext) return undefined;
+    let previousOutput = '';
+    for (let i = Math.min(index, this.chunks.length) - 1; i >= 0 && !previousOutput; i--) {
+      if (this.chunks[i].trim()) previousOutput = this.chunks[i];
+    }
+    return buildContext(previousSource, previousOutput, topNames(this.names));
+  }
+
+  private async loadPageBatch(doc: PagedDocument, from: number, to: number): Promise<PageBatch> {
+    const { ocrMode, preprocess, scheme } = this.settings!;
+    const inputs: StreamInput[] = [];
+    const originals: string[] = [];
+    const pages: number[] = [];
+    const records: PageBatch['records'] = [];
+    const routes: PageBatch['routes'] = {};
+    const budgetBytes = (preprocess.maxRequestKB * 1024) / (to - from + 1);
+    for (let num = from; num <= to; num++) {
+      const { text, images, reason } = await doc.loadPage(num, { ocr: ocrMode, preprocess, budgetBytes, script: schemeFor(scheme).sourceScript, signal: this.controller?.signal });
+      if (images?.length) {
+        images.forEach((image, i) => {
+          inputs.push({ data: image.data, mimeType: image.mimeType });
+          originals.push(`${doc.unitLabel} ${num}${images.length > 1 ? ` (${i + 1}/${images.length})` : ''} (OCR: ${reason ?? 'scan'})`);
+          pages.push(num);
+          records.push({ thumbnail: image.thumbnail });
+        });
+        routes[num] = { route: 'ocr', reason };
+      } else if (text?.trim()) {
+        inputs.push(text);
+        originals.push(text.slice(0, 300));
+        pages.push(num);
+        records.push({ original: text });
+        routes[num] = { route: 'text', reason };
+      } else {
+        routes[num] = { route: 'empty', reason: reason ?? 'no text' };
+      }
+    }
+    return { inputs, originals, pages, records, routes };
+  }
+
+  // Scans and images have no offline route; without a configured model they cannot run.
+  private visionProvider(settings: SessionSettings): TransliterationProvider {
+    if (!settings.provider) throw new Error('Scanned pages and images need a configured vision model. Check the provider settings, or set Vision OCR to OFF.');
+    return settings.provider;
+  }
+
+  // Vision model when any page in the batch went out as a scan, otherwise whichever engine handles text.
+  private pageProvider(batch: PageBatch): TransliterationProvider {
+    return batch.inputs.some(input => typeof input !== 'string') ? this.visionProvider(this.settings!) : this.textProvider(this.settings!);
+  }
+
+  // Rebuilds the request for a non-PDF chunk from its recorded source.
+  private async loadSourceInputs(file: File, source: Exclude<BatchSource, { kind: 'pdf' }>) {
+    const settings = this.settings!;
+    if (source.kind === 'image') {
+      const scans = await loadImageScanInWorker(file, settings.preprocess, settings.preprocess.maxRequestKB * 1024, this.controller?.signal);
+      return { provider: this.visionProvider(settings), inputs: scans.map(({ data, mimeType }) => ({ data, mimeType })) as StreamInput[] };
+    }
+    const bytes = await file.slice(source.startByte, source.endByte).arrayBuffer();
+    return { provider: this.textProvider(settings), inputs: [new TextDecoder('utf-8').decode(bytes)] as StreamInput[] };
+  }
+
+  // Streams one batch with retries. Resolves null when paused/stopped, or a placeholder
+  // (recorded on the skipped list) when the batch keeps failing or the provider refuses it.
+  // Errors every later batch would hit too (see isFatalError) are thrown and end the run.
+  // `usage` covers every attempt. Output that fails the quality checks is requested again; the
+  // best attempt comes back with its remaining `issues`.
+  private async runBatch(provider: TransliterationProvider, inputs: StreamInput[], original: string, slot = this.visibleSlot, request?: ConvertOptions) {
+    const signal = this.controller!.signal;
+    const { scheme, glossary } = this.settings!;
+    const language = this.sourceLanguage(inputs);
+    let usage = EMPTY_USAGE;
+    const onUsage = (tokens: TokenUsage) => { usage = addUsage(usage, tokens); this.recordUsage(tokens); };
+    if (this.lostNetwork(provider)) return null;
+    const live = { original, text: "" };
+    this.liveSlots.set(slot, live);
+    this.showSlot(slot);
+    try {
+      const { latin, postProcess, sourceScript } = schemeFor(scheme);
+      const terms = latin ? relevantEntries(glossary, inputs) : [];
+      let best: { text: string; issues: QualityIssue[] } | null = null;
+      for (let attempt = 0; attempt <= MAX_QUALITY_RETRIES; attempt++) {
+        live.text = "";
+        const text = await convertWithRetry(provider, inputs, {
+          signal,
+          request: { ...request, scheme, language, onUsage, ...(terms.length ? { glossary: terms } : {}) },
+          shouldStop: () => this.paused || this.lostNetwork(provider),
+          onChunk: chunk => { live.text += chunk; this.showSlot(slot); },
+          onRetry: (err, attempt, delayMs) => {
+            console.warn(`Batch attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`, err.message);
+            live.text = "";
+            this.showSlot(slot);
+            this.emit({ type: 'attempt-failed', error: err.message });
+          }
+        });
+        if (text === null) return null;
+        const issues = checkOutput(inputs, text, sourceScript, language);
+        if (!best || issues.length < best.issues.length) best = { text, issues };
+        if (!issues.length || attempt === MAX_QUALITY_RETRIES) break;
+        console.warn('Output failed quality checks, requesting again:', issues.map(i => i.detail).join('; '));
+      }
+      const fixed = applyGlossary(postProcess(best!.text), terms);
+      this.glossaryCounts = mergeCounts(this.glossaryCounts, fixed.counts);
+      return { text: fixed.text, error: null, usage, issues: best!.issues };
+    } catch (err: any) {
+      // Skip only a batch that ran out of retries or that the provider refused for its own content.
+      if (!(err instanceof RetriesExhaustedError) && (!(err instanceof ProviderError) || isFatalError(err))) throw err;
+      this.emit({ type: 'attempt-failed', error: err.message });
+      return { text: '', error: err.message as string, usage, issues: [] as QualityIssue[] };
+    } finally {
+      this.liveSlots.delete(slot);
+    }
+  }
+
+  // Converts a PDF batch with page delimiters, re-requesting any pages the model dropped.
+  // Resolves null when stopped; `missing` lists pages still absent after the repair rounds.
+  private async convertPages(provider: TransliterationProvider, batch: PageBatch, slot?: number, context?: ChunkContext) {
+    const label = batch.originals.join("\n---\n");
+    const result = await this.runBatch(provider, batch.inputs, label, slot, { pages: batch.pages, context });
+    if (!result) return null;
+    let usage = result.usage;
+    let issues = result.issues;
+    if (result.error) return { pages: new Map<number, string>(), missing: batch.pages, error: result.error, usage, issues };
+
+    const parsed = parsePages(result.text, [...new Set(batch.pages)]);
+    if (parsed.unexpected.length) console.warn('Model emitted unrequested page markers:', parsed.unexpected);
+    let error: string | null = null;
+    for (let round = 0; round < MAX_PAGE_REPAIR_ROUNDS && parsed.missing.length; round++) {
+      const want = parsed.missing;
+      const idx = batch.pages.flatMap((p, i) => want.includes(p) ? [i] : []);
+      const repair = await this.runBatch(provider, idx.map(i => batch.inputs[i]), idx.map(i => batch.originals[i]).join("\n---\n"), slot, { pages: idx.map(i => batch.pages[i]), context });
+      if (!repair) return null;
+      usage = addUsage(usage, repair.usage);
+      if (repair.error) { error = repair.error; break; }
+      issues = [...issues, ...repair.issues];
+      const again = parsePages(repair.text, want);
+      again.pages.forEach((text, page) => parsed.pages.set(page, text));
+      parsed.missing = again.missing;
+    }
+    return { pages: parsed.pages, missing: parsed.missing, error: parsed.missing.length ? (error ?? 'Page missing from model output') : null, usage, issues };
+  }
+
+  // Writes re-converted pages back into their slots (first slot = startPage) and emits them for the feed.
+  private applyPages(firstSlot: number, startPage: number, pages: Map<number, string>, batch: PageBatch, issues: QualityIssue[]) {
+    const chunks: ChunkWrite[] = [];
+    const previews: ChunkResult[] = [];
+    const flags: QualityFlag[] = [];
+    pages.forEach((text, page) => {
+      const index = firstSlot + page - startPage;
+      const at = batch.pages.indexOf(page);
+      const source = { kind: 'pdf' as const, startPage: page, endPage: page };
+      if (issues.length) flags.push({ chunkIndex: index, source, issues });
+      this.chunks[index] = text;
+      this.chunkPages[index] = page;
+      this.noteNames(text);
+      chunks.push({ index, text, page, source, ...batch.records[at], review: issues.length ? 'flagged' : 'pending' });
+      previews.push({ original: batch.originals[at] ?? `Page ${page}`, converted: text, page });
+    });
+    this.setFlagged([...pages.keys()].map(page => firstSlot + page - startPage), flags);
+    this.writeCheckpoint(null, chunks);
+    this.emit({ type: 'output', results: previews });
+  }
+}
@@ -0,0 +1,78 @@
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+import { loadImageScan, openDocument, PagedDocument } from './inputAdapters';
+import { chunkTextFile, TextChunk } from './textChunker';
+import { DocumentInfo, WorkerRequest, WorkerResponse } from './documentWorkerClient';
+
+// Worker side of documentWorkerClient.ts. The input adapters run here unchanged: with no
+// document in scope they draw on OffscreenCanvas, and pdf.js parses in this thread instead of
+// starting a worker of its own.
+(globalThis as any).pdfjsWorker = pdfjsWorker;
+
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const docs = new Map<number, PagedDocument>();
+const streams = new Map<number, AsyncGenerator<TextChunk>>();
+const controllers = new Map<number, AbortController>();
+
+const documentFor = (id: number) => {
+  const doc = docs.get(id);
+  if (!doc) throw new Error('Document is no longer open.');
+  return doc;
+};
+
+const handle = async (request: WorkerRequest, signal: AbortSignal): Promise<{ value: unknown; transfer?: Transferable[] }> => {
+  switch (request.type) {
+    case 'open': {
+      const doc = await openDocument(request.file);
+      docs.set(request.id, doc);
+      const info: DocumentInfo & { id: number } = { id: request.id, format: doc.format, pageCount: doc.pageCount, unitLabel: doc.unitLabel, scanned: doc.scanned };
+      return { value: info };
+    }
+    case 'load-page':
+      return { value: await documentFor(request.doc).loadPage(request.page, { ...request.options, signal }) };
+    case 'render-scan': {
+      const canvas = await documentFor(request.doc).renderScan!(request.page, request.preprocess) as OffscreenCanvas;
+      const bitmap = canvas.transferToImageBitmap();
+      return { value: bitmap, transfer: [bitmap] };
+    }
+    case 'image-scan':
+      return { value: await loadImageScan(request.file, request.preprocess, request.budgetBytes) };
+    case 'chunk-text':
+      streams.set(request.id, chunkTextFile(request.file, { startByte: request.startByte, targetBytes: request.targetBytes }));
+      return { value: request.id };
+    case 'next': {
+      const stream = streams.get(request.stream);
+      const next = stream ? await stream.next() : { done: true as const, value: undefined };
+      if (next.done) streams.delete(request.stream);
+      return { value: next.done ? null : next.value };
+    }
+    default:
+      throw new Error(`Unknown request ${request.type}.`);
+  }
+};
+
+scope.onmessage = ({ data: request }) => {
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    streams.get(request.id)?.return(undefined);
+    streams.delete(request.id);
+    return;
+  }
+  if (request.type === 'close') {
+    docs.get(request.doc)?.close?.();
+    docs.delete(request.doc);
+    return;
+  }
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  handle(request, controller.signal)
+    .then(({ value, transfer }) => scope.postMessage({ type: 'result', id, value }, transfer))
+    .catch((err: any) => scope.postMessage({ type: 'error', id, message: err?.message ?? String(err) }))
+    .finally(() => controllers.delete(id));
+};
+
+scope.postMessage({ type: 'ready' });
@@ -0,0 +1,191 @@
+import { PreprocessSettings } from '../types';
+import { bitmapCanvas, detectFormat, LoadOptions, loadImageScan, openDocument, PageContent, PageImage, PagedDocument } from './inputAdapters';
+import { ScanCanvas } from './imagePreprocess';
+import { chunkTextFile, TextChunk } from './textChunker';
+
+// PDF parsing, page rendering, scan clean-up and JPEG encoding, and TXT chunking run in a
+// dedicated worker (documentWorker.ts) so the page stays responsive on low-end phones. Each call
+// is one request/response pair keyed by id; pages and TXT chunks come back one message at a time,
+// which is what drives the run's progress. An AbortSignal passed in is forwarded as a `cancel`
+// message, which stops a page render mid-way. Browsers without module workers or a 2D
+// OffscreenCanvas, and Node, run the same code on the calling thread instead.
+
+export interface DocumentInfo {
+  format: PagedDocument['format'];
+  pageCount: number;
+  unitLabel: PagedDocument['unitLabel'];
+  scanned: boolean;
+}
+
+export type WorkerRequest =
+  | { type: 'open'; id: number; file: File }
+  | { type: 'load-page'; id: number; doc: number; page: number; options: Omit<LoadOptions, 'signal'> }
+  | { type: 'render-scan'; id: number; doc: number; page: number; preprocess: PreprocessSettings }
+  | { type: 'image-scan'; id: number; file: File; preprocess: PreprocessSettings; budgetBytes: number }
+  | { type: 'chunk-text'; id: number; file: Blob; startByte: number; targetBytes: number } // Opens a stream; resolves with its id
+  | { type: 'next'; id: number; stream: number } // Next chunk of a stream, or null at the end
+  | { type: 'cancel'; id: number } // Aborts a request in flight, or closes a stream
+  | { type: 'close'; doc: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; value: any }
+  | { type: 'error'; id: number; message: string };
+
+type Outgoing = WorkerRequest extends infer R ? R extends { id: number } ? Omit<R, 'id'> : never : never;
+
+const cancelled = () => new DOMException('Cancelled', 'AbortError');
+
+class WorkerConnection {
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (err: Error) => void }>();
+
+  constructor(private worker: Worker, private onCrash: () => void) {
+    worker.addEventListener('message', ({ data }: MessageEvent<WorkerResponse>) => {
+      if (data.type === 'ready') return;
+      const entry = this.pending.get(data.id);
+      if (!entry) return; // Cancelled on this side already
+      this.pending.delete(data.id);
+      if (data.type === 'result') entry.resolve(data.value);
+      else entry.reject(new Error(data.message));
+    });
+    worker.addEventListener('error', event => {
+      event.preventDefault();
+      this.onCrash();
+      const err = new Error(`Document worker stopped: ${event.message || 'unknown error'}`);
+      this.pending.forEach(entry => entry.reject(err));
+      this.pending.clear();
+    });
+  }
+
+  request<T>(message: Outgoing, signal?: AbortSignal): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(cancelled());
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.worker.postMessage({ type: 'cancel', id });
+        reject(cancelled());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: value => { signal?.removeEventListener('abort', onAbort); resolve(value); },
+        reject: err => { signal?.removeEventListener('abort', onAbort); reject(err); }
+      });
+      this.worker.postMessage({ ...message, id });
+    });
+  }
+
+  post(message: Extract<WorkerRequest, { type: 'cancel' | 'close' }>) {
+    this.worker.postMessage(message);
+  }
+}
+
+let connection: Promise<WorkerConnection | null> | null = null;
+
+const supported = () => {
+  try {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && !!new OffscreenCanvas(1, 1).getContext('2d');
+  } catch {
+    return false;
+  }
+};
+
+// The shared worker, started on first use. Resolves null when workers are unsupported or the
+// worker failed to start or has crashed; callers then do the work themselves.
+const documentWorker = (): Promise<WorkerConnection | null> => {
+  if (connection) return connection;
+  if (!supported()) return connection = Promise.resolve(null);
+  return connection = new Promise(resolve => {
+    try {
+      const worker = new Worker(new URL('./documentWorker.ts', import.meta.url), { type: 'module' });
+      const fail = (event: ErrorEvent) => {
+        console.warn('Document worker failed to start; processing on the main thread:', event.message);
+        worker.terminate();
+        resolve(null);
+      };
+      worker.addEventListener('error', fail, { once: true });
+      worker.addEventListener('message', () => {
+        worker.removeEventListener('error', fail);
+        resolve(new WorkerConnection(worker, () => {
+          worker.terminate();
+          connection = Promise.resolve(null);
+        }));
+      }, { once: true });
+    } catch (err) {
+      console.warn('Document worker unavailable; processing on the main thread:', err);
+      resolve(null);
+    }
+  });
+};
+
+class WorkerDocument implements PagedDocument {
+  readonly format: PagedDocument['format'];
+  readonly pageCount: number;
+  readonly unitLabel: PagedDocument['unitLabel'];
+  readonly scanned: boolean;
+
+  constructor(private connection: WorkerConnection, private id: number, info: DocumentInfo) {
+    this.format = info.format;
+    this.pageCount = info.pageCount;
+    this.unitLabel = info.unitLabel;
+    this.scanned = info.scanned;
+  }
+
+  loadPage(page: number, { signal, ...options }: LoadOptions): Promise<PageContent> {
+    return this.connection.request({ type: 'load-page', doc: this.id, page, options }, signal);
+  }
+
+  // The worker hands the rendered page over as a bitmap; previews draw it on a DOM canvas.
+  async renderScan(page: number, preprocess: PreprocessSettings): Promise<ScanCanvas> {
+    const bitmap = await this.connection.request<ImageBitmap>({ type: 'render-scan', doc: this.id, page, preprocess });
+    const canvas = bitmapCanvas(bitmap);
+    bitmap.close();
+    return canvas;
+  }
+
+  close() {
+    this.connection.post({ type: 'close', doc: this.id });
+  }
+}
+
+/**
+ * openDocument in the worker for PDFs and TIFFs. Text documents need DOMParser, which workers
+ * lack, and are cut into sections up front anyway, so they open on the calling thread.
+ */
+export const openDocumentInWorker = async (file: File): Promise<PagedDocument> => {
+  const format = detectFormat(file.name, file.type);
+  const worker = format === 'pdf' || format === 'tiff' ? await documentWorker() : null;
+  if (!worker) return openDocument(file);
+  // The worker names the document after the open request's id.
+  const info = await worker.request<DocumentInfo & { id: number }>({ type: 'open', file });
+  return new WorkerDocument(worker, info.id, info);
+};
+
+export const loadImageScanInWorker = async (file: File, preprocess: PreprocessSettings, budgetBytes: number, signal?: AbortSignal): Promise<PageImage[]> => {
+  const worker = await documentWorker();
+  if (!worker) return loadImageScan(file, preprocess, budgetBytes);
+  return worker.request({ type: 'image-scan', file, preprocess, budgetBytes }, signal);
+};
+
+/** chunkTextFile in the worker, pulled one chunk at a time so a multi-GB file is never queued up. */
+export async function* chunkTextFileInWorker(
+  file: Blob,
+  options: { startByte?: number; targetBytes: number; signal?: AbortSignal }
+): AsyncGenerator<TextChunk> {
+  const worker = await documentWorker();
+  if (!worker) {
+    yield* chunkTextFile(file, options);
+    return;
+  }
+  const stream = await worker.request<number>({ type: 'chunk-text', file, startByte: options.startByte ?? 0, targetBytes: options.targetBytes });
+  try {
+    while (true) {
+      const chunk = await worker.request<TextChunk | null>({ type: 'next', stream }, options.signal);
+      if (!chunk) return;
+      yield chunk;
+    }
+  } finally {
+    worker.post({ type: 'cancel', id: stream }); // Frees the reader when the caller stops early
+  }
+}
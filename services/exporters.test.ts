@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { exportDocument, ExportMetadata, ExportSection } from './exporters';
+import { readZip } from './zip';
+
+const META: ExportMetadata = {
+  title: 'Diwan-e Ghalib',
+  sourceFile: 'ghalib.pdf',
+  pageRange: '1-2',
+  provider: 'Gemini (gemini-2.5-flash)',
+  scheme: 'roman',
+  language: 'urdu',
+  date: new Date('2026-01-15T10:30:00Z'),
+  notes: ['Ghalib: 3 replacements']
+};
+
+const SECTIONS: ExportSection[] = [
+  { text: 'Dil-e nadan tujhe hua kya hai\n\nAakhir is dard ki dawa kya hai', page: 1, original: 'دلِ ناداں تجھے ہوا کیا ہے' },
+  { text: 'Hum hain mushtaq aur woh bezaar (ya Ilahi!)', page: 2, original: 'ہم ہیں مشتاق اور وہ بیزار' }
+];
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+const unzip = async (blob: Blob) => {
+  const bytes = await bytesOf(blob);
+  const entries = readZip(bytes.buffer as ArrayBuffer);
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`${name} is missing`);
+    return text(await entry());
+  };
+  return { bytes, entries, read };
+};
+
+describe('EPUB export', () => {
+  it('stores the mimetype entry first and uncompressed', async () => {
+    const { bytes } = await unzip(await exportDocument('epub', SECTIONS, META));
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50); // Local file header
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    const nameLength = view.getUint16(26, true);
+    expect(text(bytes.subarray(30, 30 + nameLength))).toBe('mimetype');
+    expect(view.getUint16(28, true)).toBe(0); // No extra field before the data
+    expect(text(bytes.subarray(30 + nameLength, 30 + nameLength + 20))).toBe('application/epub+zip');
+  });
+
+  it('points container.xml at a package listing every chapter', async () => {
+    const { entries, read } = await unzip(await exportDocument('epub', SECTIONS, META));
+    expect(await read('META-INF/container.xml')).toContain('full-path="OEBPS/content.opf"');
+    const opf = await read('OEBPS/content.opf');
+    expect(opf).toContain('<dc:title>Diwan-e Ghalib</dc:title>');
+    expect(opf).toContain('<dc:language>ur-Latn</dc:language>');
+    for (const [, href] of opf.matchAll(/<item [^>]*href="([^"]+)"/g)) expect(entries.has(`OEBPS/${href}`)).toBe(true);
+    const chapter = await read('OEBPS/chapter-0001.xhtml');
+    expect(chapter).toContain('<h2 id="page-1">Page 1</h2>');
+    expect(chapter).toContain('(ya Ilahi!)');
+  });
+});
+
+describe('DOCX export', () => {
+  it('is a package with content types and the text in word/document.xml', async () => {
+    const { read } = await unzip(await exportDocument('docx', SECTIONS, META));
+    expect(await read('[Content_Types].xml')).toContain('/word/document.xml');
+    const document = await read('word/document.xml');
+    expect(document).toContain('Dil-e nadan tujhe hua kya hai');
+    expect(document).toContain('Hum hain mushtaq aur woh bezaar (ya Ilahi!)');
+    expect(document).toContain('Source language');
+  });
+
+  it('puts the source beside the output in the bilingual version', async () => {
+    const { read } = await unzip(await exportDocument('bilingual-docx', SECTIONS, META));
+    const document = await read('word/document.xml');
+    expect(document).toContain('<w:tbl>');
+    expect(document).toContain('دلِ ناداں تجھے ہوا کیا ہے');
+  });
+});
+
+describe('PDF export', () => {
+  it('has an xref table whose offsets each point at their object', async () => {
+    const pdf = latin1(await bytesOf(await exportDocument('pdf', SECTIONS, META)));
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(pdf.slice(startxref, startxref + 5)).toBe('xref\n');
+    const [, first, count] = pdf.slice(startxref).match(/^xref\n(\d+) (\d+)\n/)!;
+    expect(first).toBe('0');
+    const rows = pdf.slice(startxref).split('\n').slice(2, 2 + Number(count));
+    expect(rows[0]).toBe('0000000000 65535 f ');
+    rows.slice(1).forEach((row, i) => {
+      const offset = Number(row.slice(0, 10));
+      expect(row.slice(10)).toBe(' 00000 n ');
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj\n`.length)).toBe(`${i + 1} 0 obj\n`);
+    });
+    expect(pdf).toContain(`/Size ${count}`);
+  });
+
+  it('gives each content stream its byte length', async () => {
+    const pdf = latin1(await bytesOf(await exportDocument('pdf', SECTIONS, META)));
+    const streams = [...pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g)];
+    expect(streams.length).toBeGreaterThan(0);
+    for (const match of streams) {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 11)).toBe('\nendstream\n');
+    }
+  });
+
+  it('refuses non-Latin output', async () => {
+    await expect(exportDocument('pdf', SECTIONS, { ...META, scheme: 'devanagari' })).rejects.toThrow(/Latin-script output only/);
+  });
+});
+
+describe('Markdown export', () => {
+  it('opens with YAML front matter holding the metadata', async () => {
+    const markdown = await (await exportDocument('md', SECTIONS, META)).text();
+    const [, frontMatter, body] = markdown.match(/^---\n([\s\S]*?)\n---\n\n([\s\S]*)$/)!;
+    const fields = Object.fromEntries(frontMatter.split('\n').map(line => {
+      const split = line.indexOf(': ');
+      return [line.slice(0, split), JSON.parse(line.slice(split + 2))];
+    }));
+    expect(fields).toEqual({
+      title: 'Diwan-e Ghalib',
+      source_file: 'ghalib.pdf',
+      pages: '1-2',
+      provider: 'Gemini (gemini-2.5-flash)',
+      source_language: 'Urdu',
+      output_scheme: 'Roman Urdu (informal)',
+      converted: '2026-01-15'
+    });
+    expect(body).toMatch(/^# Diwan-e Ghalib\n\n## Page 1\n\nDil-e nadan/);
+    expect(body).toContain('## Glossary Report\n\n- Ghalib: 3 replacements');
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  Document, HeadingLevel, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType
+} from 'docx';
+import { ExportFormat, OutputScheme, SourceLanguage } from '../types';
+import { languageFor, outputLang } from './languages';
+import { createPdf, PdfBlock } from './pdfWriter';
+import { schemeFor } from './schemes';
+import { createZip } from './zip';
+
+export interface ExportSection {
+  text: string;
+  page: number | null; // Source page, for PDFs
+  original?: string;   // Source text, needed by the bilingual formats
+  thumbnail?: string;  // Scan of the source page when it had no text layer
+}
+
+export interface ExportMetadata {
+  title: string;
+  sourceFile: string;
+  pageRange?: string; // e.g. "12-48"; absent for TXT and images
+  provider: string;   // Provider label and model that produced the text
+  scheme: OutputScheme;
+  language?: SourceLanguage; // Source language of arabic-source schemes, when known
+  date: Date;
+  notes?: string[];   // Appended as a closing section, e.g. the glossary report
+}
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  bilingual: boolean;
+  latinOnly: boolean; // The built-in PDF fonts can't render Devanagari
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'docx', label: 'Word (DOCX)', extension: 'docx', bilingual: false, latinOnly: false },
+  { id: 'pdf', label: 'PDF', extension: 'pdf', bilingual: false, latinOnly: true },
+  { id: 'epub', label: 'EPUB (e-reader)', extension: 'epub', bilingual: false, latinOnly: false },
+  { id: 'md', label: 'Markdown', extension: 'md', bilingual: false, latinOnly: false },
+  { id: 'txt', label: 'Plain text (UTF-8)', extension: 'txt', bilingual: false, latinOnly: false },
+  { id: 'bilingual-docx', label: 'Bilingual Word', extension: 'docx', bilingual: true, latinOnly: false },
+  { id: 'bilingual-html', label: 'Bilingual HTML', extension: 'html', bilingual: true, latinOnly: false }
+];
+
+const EPUB_CHAPTER_SECTIONS = 20; // Pages/chunks per EPUB chapter; one file per page is slow on e-ink readers
+const URDU_FONT = 'Jameel Noori Nastaleeq'; // Word falls back to its own Nastaliq/Naskh font when missing
+
+const metadataLines = (meta: ExportMetadata): [string, string][] => [
+  ['Source file', meta.sourceFile],
+  ...(meta.pageRange ? [['Pages', meta.pageRange] as [string, string]] : []),
+  ['Provider', meta.provider],
+  ...(meta.language ? [['Source language', languageFor(meta.language).label] as [string, string]] : []),
+  ['Output scheme', schemeFor(meta.scheme).label],
+  ['Converted', meta.date.toISOString().slice(0, 10)]
+];
+
+// Language tag of the output: Latin and Devanagari output of Punjabi, Sindhi, ... is tagged with
+// that language rather than Urdu.
+const documentLang = (meta: ExportMetadata) => {
+  const { lang, sourceScript } = schemeFor(meta.scheme);
+  return outputLang(lang, sourceScript, meta.language);
+};
+
+const sectionHeading = (section: ExportSection, i: number) => section.page != null ? `Page ${section.page}` : `Part ${i + 1}`;
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!);
+
+const paragraphsHtml = (text: string) =>
+  text.trim().split(/\n\s*\n/).map(p => `<p>${escapeXml(p).replace(/\n/g, '<br/>')}</p>`).join('\n');
+
+// --- DOCX ---------------------------------------------------------------------------------
+
+// Urdu needs a right-to-left paragraph and run, and the font set for complex scripts; Word lays out
+// Arabic-script text with the `cs` font and size, not the Latin ones.
+const urduParagraph = (text: string, size: number, spacingAfter?: number) => new Paragraph({
+  bidirectional: true,
+  ...(spacingAfter ? { spacing: { after: spacingAfter } } : {}),
+  children: [new TextRun({
+    text,
+    rightToLeft: true,
+    font: { ascii: URDU_FONT, hAnsi: URDU_FONT, cs: URDU_FONT },
+    size,
+    sizeComplexScript: size,
+    language: { bidirectional: 'ur-PK' }
+  })]
+});
+
+const docxParagraph = (text: string, rtl: boolean, size: number, spacingAfter?: number) =>
+  rtl ? urduParagraph(text, size, spacingAfter) : new Paragraph({ children: [new TextRun({ text, size })], ...(spacingAfter ? { spacing: { after: spacingAfter } } : {}) });
+
+const docxMetadata = (meta: ExportMetadata) => [
+  new Paragraph({ text: meta.title, heading: HeadingLevel.TITLE }),
+  ...metadataLines(meta).map(([k, v]) => new Paragraph({ children: [new TextRun({ text: `${k}: `, bold: true, size: 18 }), new TextRun({ text: v, size: 18 })] })),
+  new Paragraph({ text: '' })
+];
+
+const docxNotes = (meta: ExportMetadata) => meta.notes?.length ? [{
+  properties: {},
+  children: [
+    new Paragraph({ text: 'Glossary Report', heading: HeadingLevel.HEADING_1 }),
+    ...meta.notes.map(line => new Paragraph({ children: [new TextRun({ text: line, size: 20 })] }))
+  ]
+}] : [];
+
+const docxDocument = (meta: ExportMetadata, children: (Paragraph | Table)[]) => {
+  const { label, source } = schemeFor(meta.scheme);
+  return new Document({
+    title: meta.title,
+    description: `Converted from ${source}. Output scheme: ${label}`,
+    customProperties: metadataLines(meta).map(([name, value]) => ({ name, value })),
+    sections: [{ properties: {}, children }, ...docxNotes(meta)]
+  });
+};
+
+const toDocx = (sections: ExportSection[], meta: ExportMetadata) =>
+  Packer.toBlob(docxDocument(meta, [
+    ...docxMetadata(meta),
+    ...sections.flatMap(section => {
+      // Nastaliq sits taller than Latin type, so Urdu output is set a size up.
+      const { rtl } = schemeFor(meta.scheme);
+      const body = docxParagraph(section.text.trim(), rtl, rtl ? 28 : 24, 200);
+      return section.page == null ? [body] : [new Paragraph({ text: `Page ${section.page}`, heading: HeadingLevel.HEADING_2 }), body];
+    })
+  ]));
+
+const cell = (paragraph: Paragraph) =>
+  new TableCell({ width: { size: 50, type: WidthType.PERCENTAGE }, children: [paragraph] });
+
+const toBilingualDocx = (sections: ExportSection[], meta: ExportMetadata) => {
+  const { sourceScript, rtl } = schemeFor(meta.scheme);
+  return Packer.toBlob(docxDocument(meta, [
+    ...docxMetadata(meta),
+    ...sections.flatMap((section, i) => [
+      new Paragraph({ text: sectionHeading(section, i), heading: HeadingLevel.HEADING_2 }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: pairParagraphs(section).map(([source, output]) => new TableRow({
+          cantSplit: true,
+          children: [
+            cell(docxParagraph(source, sourceScript === 'arabic', 24)),
+            cell(docxParagraph(output, rtl, rtl ? 24 : 22))
+          ]
+        }))
+      })
+    ])
+  ]));
+};
+
+// Aligns source and output paragraph by paragraph; if the counts differ the whole section is one row.
+const pairParagraphs = (section: ExportSection): [string, string][] => {
+  const output = section.text.trim().split(/\n\s*\n/);
+  if (section.original === undefined) {
+    return [[section.thumbnail ? '(scanned page, no text layer)' : '(original not stored)', section.text.trim()]];
+  }
+  const source = section.original.trim().split(/\n\s*\n/);
+  return source.length === output.length ? source.map((p, i) => [p, output[i]]) : [[section.original.trim(), section.text.trim()]];
+};
+
+// --- HTML / EPUB ----------------------------------------------------------------------------
+
+const toBilingualHtml = (sections: ExportSection[], meta: ExportMetadata): Blob => {
+  const { sourceScript, rtl } = schemeFor(meta.scheme);
+  const lang = documentLang(meta);
+  const sourceLang = languageFor(meta.language).lang;
+  const sourceAttrs = sourceScript === 'arabic' ? `class="ur" lang="${sourceLang}" dir="rtl"` : 'lang="ur-Latn"';
+  const outputAttrs = rtl ? `class="ur" lang="${lang}" dir="rtl"` : `lang="${lang}"`;
+  const rows = sections.map((section, i) => {
+    const pairs = pairParagraphs(section).map(([source, output], j) => `<tr>
+  <td ${sourceAttrs}>${j === 0 && section.original === undefined && section.thumbnail ? `<img src="${section.thumbnail}" alt="${escapeXml(sectionHeading(section, i))}"/>` : paragraphsHtml(source)}</td>
+  <td ${outputAttrs}>${paragraphsHtml(output)}</td>
+</tr>`).join('\n');
+    return `<h2>${escapeXml(sectionHeading(section, i))}</h2>\n<table>\n${pairs}\n</table>`;
+  }).join('\n');
+  const html = `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(meta.title)}</title>
+${metadataLines(meta).map(([k, v]) => `<meta name="${escapeXml(k.toLowerCase().replace(/ /g, '-'))}" content="${escapeXml(v)}"/>`).join('\n')}
+<style>
+body { font-family: Georgia, serif; max-width: 70rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+td { width: 50%; vertical-align: top; padding: .5rem 1rem; border-top: 1px solid #ddd; }
+td.ur { font-family: "Noto Nastaliq Urdu", "Jameel Noori Nastaleeq", serif; font-size: 1.2em; line-height: 2.2; }
+td img { max-width: 100%; }
+dl.meta { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; color: #666; font-size: .9em; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(meta.title)}</h1>
+<dl class="meta">${metadataLines(meta).map(([k, v]) => `<dt>${escapeXml(k)}</dt><dd>${escapeXml(v)}</dd>`).join('')}</dl>
+${rows}
+${meta.notes?.length ? `<h2>Glossary Report</h2>\n${meta.notes.map(n => `<p>${escapeXml(n)}</p>`).join('\n')}` : ''}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+};
+
+const xhtml = (title: string, lang: string, body: string, rtl = false) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}"${rtl ? ' dir="rtl"' : ''}>
+<head><meta charset="utf-8"/><title>${escapeXml(title)}</title>${rtl ? `<style>body { font-family: "${URDU_FONT}", "Noto Nastaliq Urdu", serif; line-height: 2.2; }</style>` : ''}</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const toEpub = (sections: ExportSection[], meta: ExportMetadata): Blob => {
+  const { label, rtl } = schemeFor(meta.scheme);
+  const lang = documentLang(meta);
+  const chapters: { title: string; file: string; body: string }[] = [];
+  for (let start = 0; start < sections.length; start += EPUB_CHAPTER_SECTIONS) {
+    const group = sections.slice(start, start + EPUB_CHAPTER_SECTIONS);
+    const first = group[0].page;
+    const last = group[group.length - 1].page;
+    const title = first != null && last != null ? `Pages ${first}-${last}` : `Part ${chapters.length + 1}`;
+    const body = group.map(section =>
+      `${section.page != null ? `<h2 id="page-${section.page}">Page ${section.page}</h2>\n` : ''}${paragraphsHtml(section.text)}`
+    ).join('\n');
+    chapters.push({ title, file: `chapter-${String(chapters.length + 1).padStart(4, '0')}.xhtml`, body: `<h1>${escapeXml(title)}</h1>\n${body}` });
+  }
+  const info = metadataLines(meta);
+  const titlePage = `<h1>${escapeXml(meta.title)}</h1>\n<dl>${info.map(([k, v]) => `<dt>${escapeXml(k)}</dt><dd>${escapeXml(v)}</dd>`).join('')}</dl>`;
+  const notes = meta.notes?.length ? [{ title: 'Glossary Report', file: 'notes.xhtml', body: `<h1>Glossary Report</h1>\n${meta.notes.map(n => `<p>${escapeXml(n)}</p>`).join('\n')}` }] : [];
+  const docs = [{ title: 'Title Page', file: 'title.xhtml', body: titlePage }, ...chapters, ...notes];
+  const modified = meta.date.toISOString().replace(/\.\d+Z$/, 'Z');
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid" xml:lang="${lang}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="uid">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+<dc:title>${escapeXml(meta.title)}</dc:title>
+<dc:language>${lang}</dc:language>
+<dc:date>${modified}</dc:date>
+<dc:source>${escapeXml(meta.sourceFile)}</dc:source>
+<dc:description>${escapeXml(info.map(([k, v]) => `${k}: ${v}`).join('; '))}</dc:description>
+<dc:contributor>${escapeXml(meta.provider)}</dc:contributor>
+<dc:subject>${escapeXml(label)}</dc:subject>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+${docs.map((d, i) => `<item id="doc${i}" href="${d.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine${rtl ? ' page-progression-direction="rtl"' : ''}>
+${docs.map((_, i) => `<itemref idref="doc${i}"/>`).join('\n')}
+</spine>
+</package>
+`;
+  const nav = xhtml('Contents', lang, `<nav epub:type="toc" id="toc"><h1>Contents</h1><ol>\n${docs.map(d => `<li><a href="${d.file}">${escapeXml(d.title)}</a></li>`).join('\n')}\n</ol></nav>`);
+
+  return new Blob([createZip([
+    { name: 'mimetype', data: 'application/epub+zip' },
+    { name: 'META-INF/container.xml', data: '<?xml version="1.0" encoding="utf-8"?>\n<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>\n' },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    ...docs.map(d => ({ name: `OEBPS/${d.file}`, data: xhtml(d.title, lang, d.body, rtl) }))
+  ], meta.date)], { type: 'application/epub+zip' });
+};
+
+// --- PDF / Markdown / TXT ---------------------------------------------------------------------
+
+const toPdf = (sections: ExportSection[], meta: ExportMetadata): Blob => {
+  const blocks: PdfBlock[] = [
+    { text: meta.title, style: 'title' },
+    ...metadataLines(meta).map(([k, v]): PdfBlock => ({ text: `${k}: ${v}`, style: 'meta' })),
+    ...sections.flatMap((section): PdfBlock[] => [
+      ...(section.page != null ? [{ text: `Page ${section.page}`, style: 'heading' as const }] : []),
+      ...section.text.trim().split(/\n\s*\n/).map((p): PdfBlock => ({ text: p, style: 'body' }))
+    ]),
+    ...(meta.notes?.length ? [{ text: 'Glossary Report', style: 'heading' as const }, ...meta.notes.map((n): PdfBlock => ({ text: n, style: 'body' }))] : [])
+  ];
+  return createPdf(blocks, {
+    title: meta.title,
+    subject: `Converted from ${meta.sourceFile} (${schemeFor(meta.scheme).label})`,
+    keywords: meta.provider,
+    created: meta.date
+  });
+};
+
+const toMarkdown = (sections: ExportSection[], meta: ExportMetadata): Blob => {
+  const frontMatter = metadataLines(meta).map(([k, v]) => `${k.toLowerCase().replace(/ /g, '_')}: ${JSON.stringify(v)}`).join('\n');
+  const body = sections.map(section =>
+    `${section.page != null ? `## Page ${section.page}\n\n` : ''}${section.text.trim()}`
+  ).join('\n\n');
+  const notes = meta.notes?.length ? `\n\n## Glossary Report\n\n${meta.notes.map(n => `- ${n}`).join('\n')}` : '';
+  return new Blob([`---\ntitle: ${JSON.stringify(meta.title)}\n${frontMatter}\n---\n\n# ${meta.title}\n\n${body}${notes}\n`], { type: 'text/markdown;charset=utf-8' });
+};
+
+const toText = (sections: ExportSection[], meta: ExportMetadata): Blob => {
+  const header = [meta.title, ...metadataLines(meta).map(([k, v]) => `${k}: ${v}`)].join('\n');
+  const body = sections.map(section =>
+    `${section.page != null ? `--- Page ${section.page} ---\n` : ''}${section.text.trim()}`
+  ).join('\n\n');
+  const notes = meta.notes?.length ? `\n\n--- Glossary Report ---\n${meta.notes.join('\n')}` : '';
+  return new Blob([`${header}\n\n${body}${notes}\n`], { type: 'text/plain;charset=utf-8' });
+};
+
+/**
+ * Renders converted sections in the requested format. Empty sections (blank pages, skipped
+ * batches) are left out; every format starts with the metadata block.
+ */
+export const exportDocument = async (format: ExportFormat, sections: ExportSection[], meta: ExportMetadata): Promise<Blob> => {
+  const info = EXPORT_FORMATS.find(f => f.id === format)!;
+  if (info.latinOnly && !schemeFor(meta.scheme).latin) {
+    throw new Error(`${info.label} export supports Latin-script output only. Use Word, EPUB or HTML for ${schemeFor(meta.scheme).label}.`);
+  }
+  const content = sections.filter(s => s.text.trim());
+  switch (format) {
+    case 'docx': return toDocx(content, meta);
+    case 'bilingual-docx': return toBilingualDocx(content, meta);
+    case 'bilingual-html': return toBilingualHtml(content, meta);
+    case 'epub': return toEpub(content, meta);
+    case 'pdf': return toPdf(content, meta);
+    case 'md': return toMarkdown(content, meta);
+    case 'txt': return toText(content, meta);
+  }
+};
@@ -0,0 +1,27 @@
+// Streamed tokens arrive far faster than the screen refreshes, and each React update (plus the
+// auto-scroll that follows it) costs a layout. A FrameBatch keeps only the latest value pushed
+// and applies it once per animation frame.
+
+export interface FrameBatch<T> {
+  push(value: T): void;
+  cancel(): void; // Drops a value not yet applied, e.g. before showing a final result
+}
+
+export const batchPerFrame = <T>(apply: (value: T) => void): FrameBatch<T> => {
+  let latest: T;
+  let frame: number | null = null;
+  return {
+    push(value) {
+      latest = value;
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        apply(latest);
+      });
+    },
+    cancel() {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+    }
+  };
+};
@@ -1,29 +1,53 @@
 
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { TokenUsage } from '../types';
+import { ConvertOptions, ProviderError, StreamInput, TransliterationProvider, parseRetryAfter } from './transliterationProvider';
+import { buildDirective, labelInputs, systemInstruction } from './prompts';
 
-const SYSTEM_INSTRUCTION = `
-You are an expert linguist specializing in Urdu and English.
-Your task is to convert Urdu text into Roman English (Roman Urdu).
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
 
-Guidelines:
-1. If the input contains images, perform OCR on each to extract the Urdu text.
-2. Provide a direct, phonetic transliteration into Roman English for all provided content.
-3. Maintain all original punctuation and structural formatting.
-4. Output ONLY the transliterated text. No preamble, no "Page X" markers unless they are in the source.
-5. Example: "میں اسکول جا رہا ہوں" -> "Mein school ja raha hoon".
-`;
+export type { StreamInput };
 
-export type StreamInput = string | { data: string; mimeType: string };
+// Body of a POST to the key-holding proxy's /convert endpoint (server/proxyServer.ts). The proxy
+// builds the prompt itself, so only the inputs and options travel.
+export interface ProxyConvertRequest {
+  model?: string;
+  inputs: StreamInput[];
+  options: Omit<ConvertOptions, 'onUsage'>;
+}
+
+// One line of the proxy's NDJSON response. A stream that ends without `done` was cut off.
+export type ProxyEvent =
+  | { type: 'text'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'error'; message: string; status?: number; retryAfterMs?: number }
+  | { type: 'done' };
 
-export class GeminiService {
-  private ai: GoogleGenAI;
+export class GeminiService implements TransliterationProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini Cloud';
+  readonly supportsImages = true;
+  private ai: GoogleGenAI | null;
+  private proxy: { url: string; token: string } | null;
+  readonly model: string;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  // With `proxy`, requests go to a self-hosted proxy that holds the API key, and the browser
+  // only ever sees the user's proxy token. `baseUrl` points the SDK at another Gemini endpoint.
+  constructor(options: { apiKey?: string; model?: string; baseUrl?: string; proxy?: { url: string; token: string } } = {}) {
+    this.proxy = options.proxy ? { url: options.proxy.url.replace(/\/+$/, ''), token: options.proxy.token } : null;
+    this.ai = this.proxy ? null : new GoogleGenAI({
+      apiKey: options.apiKey || process.env.API_KEY,
+      ...(options.baseUrl ? { httpOptions: { baseUrl: options.baseUrl } } : {})
+    });
+    this.model = options.model || DEFAULT_GEMINI_MODEL;
   }
 
-  async *convertStream(inputs: StreamInput[]): AsyncGenerator<string> {
-    const parts = inputs.map(input => {
+  async *convertStream(inputs: StreamInput[], options: ConvertOptions = {}): AsyncGenerator<string> {
+    if (this.proxy) {
+      yield* this.proxyStream(inputs, options);
+      return;
+    }
+    const parts = labelInputs(inputs, options).map(input => {
       if (typeof input === 'string') {
         return { text: input };
       } else {
@@ -31,27 +55,82 @@ export class GeminiService {
       }
     });
 
-    parts.push({ text: "Transcribe (if image) and convert all the above Urdu content into Roman English. Keep the order of segments preserved. Return only transliteration." });
+    parts.push({ text: buildDirective(options) });
 
     try {
-      const result = await this.ai.models.generateContentStream({
-        model: 'gemini-3-flash-preview',
+      const result = await this.ai!.models.generateContentStream({
+        model: this.model,
         contents: [{ role: 'user', parts }],
         config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
+          systemInstruction: systemInstruction(options),
           temperature: 0.1,
           thinkingConfig: { thinkingBudget: 0 } // Disable thinking for pure transliteration speed
         },
       });
 
-      for await (const chunk of result) {
-        const text = chunk.text;
-        if (text) yield text;
+      let usage: GenerateContentResponse['usageMetadata'];
+      try {
+        for await (const chunk of result) {
+          usage = chunk.usageMetadata ?? usage;
+          const text = chunk.text;
+          if (text) yield text;
+        }
+      } finally {
+        // Counts are cumulative, so the last chunk seen covers everything billed, even on failure.
+        if (usage) options.onUsage?.({ inputTokens: usage.promptTokenCount ?? 0, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) });
       }
     } catch (error: any) {
       console.error('Gemini Stream Error Detail:', error);
       const msg = error?.message || 'Streaming conversion failed.';
-      throw new Error(`AI Uplink Error: ${msg}`);
+      const status = typeof error?.status === 'number' ? error.status : undefined;
+      throw new ProviderError(`AI Uplink Error: ${msg}`, { status, retryAfterMs: parseRetryAfter(msg) });
+    }
+  }
+
+  private async *proxyStream(inputs: StreamInput[], { onUsage, ...options }: ConvertOptions): AsyncGenerator<string> {
+    const body: ProxyConvertRequest = { model: this.model, inputs, options };
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    try {
+      const res = await fetch(`${this.proxy!.url}/convert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.proxy!.token}` },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok || !res.body) {
+        const text = await res.text().catch(() => '');
+        let message = text.slice(0, 200);
+        try { message = JSON.parse(text).error ?? message; } catch {}
+        throw new ProviderError(`Proxy HTTP ${res.status}: ${message}`, {
+          status: res.status,
+          retryAfterMs: parseRetryAfter(res.headers.get('Retry-After'))
+        });
+      }
+
+      reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: ProxyEvent = JSON.parse(line);
+          if (event.type === 'text') yield event.text;
+          else if (event.type === 'usage') onUsage?.(event.usage);
+          else if (event.type === 'error') throw new ProviderError(event.message, { status: event.status, retryAfterMs: event.retryAfterMs });
+          else return;
+        }
+      }
+      throw new ProviderError('Proxy stream ended before the model finished.');
+    } catch (error: any) {
+      if (error instanceof ProviderError) throw error;
+      console.error('Gemini Proxy Error Detail:', error);
+      throw new ProviderError(`AI Uplink Error: ${error?.message || 'Proxy request failed.'}`);
+    } finally {
+      reader?.cancel().catch(() => {});
     }
   }
 }
@@ -0,0 +1,144 @@
+import { GlossaryEntry } from '../types';
+import { transliterate } from './localTransliterator';
+import { StreamInput } from './transliterationProvider';
+
+const GLOSSARY_KEY = 'u2r-glossary';
+const MAX_PROMPT_ENTRIES = 150; // Image batches can't be filtered by content, so cap what goes into the prompt
+
+// Letters and combining marks in any script; glossary matches must not start or end inside a word.
+const BOUNDARY_BEFORE = '(?<![\\p{L}\\p{M}\\p{N}])';
+const BOUNDARY_AFTER = '(?![\\p{L}\\p{M}\\p{N}])';
+
+export type GlossaryCounts = Record<string, number>; // Preferred spelling -> replacements made
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_KEY);
+    return raw ? normalizeEntries(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossary = (entries: GlossaryEntry[]) => {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(entries));
+};
+
+// Drops blank rows and merges duplicates of the same Urdu term (the later row wins).
+const normalizeEntries = (raw: unknown): GlossaryEntry[] => {
+  if (!Array.isArray(raw)) throw new Error('Glossary JSON must be an array of { source, target } objects.');
+  const bySource = new Map<string, GlossaryEntry>();
+  for (const item of raw) {
+    const source = String(item?.source ?? '').trim();
+    const target = String(item?.target ?? '').trim();
+    if (!source || !target) continue;
+    const variants = (Array.isArray(item.variants) ? item.variants : [])
+      .map((v: unknown) => String(v).trim())
+      .filter((v: string) => v && v !== target);
+    bySource.set(source, variants.length ? { source, target, variants } : { source, target });
+  }
+  return Array.from(bySource.values());
+};
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Reads a glossary file. JSON is an array of { source, target, variants? }; CSV has the columns
+ * source,target[,variants] with variants separated by "|". A header row is optional.
+ */
+export const parseGlossary = (text: string, fileName: string): GlossaryEntry[] => {
+  const content = text.replace(/^﻿/, '');
+  if (fileName.toLowerCase().endsWith('.json') || /^\s*\[/.test(content)) {
+    return normalizeEntries(JSON.parse(content));
+  }
+  const rows = parseCsvRows(content);
+  if (rows.length && rows[0][0]?.trim().toLowerCase() === 'source') rows.shift();
+  return normalizeEntries(rows.map(([source, target, variants]) => ({
+    source,
+    target,
+    variants: variants ? variants.split('|') : []
+  })));
+};
+
+export const glossaryToCsv = (entries: GlossaryEntry[]): string =>
+  ['source,target,variants', ...entries.map(e => [e.source, e.target, (e.variants ?? []).join('|')].map(csvField).join(','))].join('\r\n');
+
+export const glossaryToJson = (entries: GlossaryEntry[]): string => JSON.stringify(entries, null, 2);
+
+// Entries whose Urdu term occurs in the batch; image batches get every entry (up to the cap).
+export const relevantEntries = (entries: GlossaryEntry[], inputs: StreamInput[]): GlossaryEntry[] => {
+  if (inputs.some(input => typeof input !== 'string')) return entries.slice(0, MAX_PROMPT_ENTRIES);
+  const text = (inputs as string[]).join('\n');
+  return entries.filter(e => text.includes(e.source));
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface CompiledEntry { target: string; pattern: RegExp; }
+
+// Cached per glossary array; entries are immutable once saved.
+const compiled = new WeakMap<GlossaryEntry[], CompiledEntry[]>();
+
+const compile = (entries: GlossaryEntry[]): CompiledEntry[] => {
+  let list = compiled.get(entries);
+  if (list) return list;
+  list = entries.map(entry => {
+    // What the model might have written instead: the untransliterated term, the user's listed
+    // variants, and the rule engine's spelling. Longest first so "Muhammad Ali" beats "Muhammad".
+    const forms = [entry.source, ...(entry.variants ?? []), transliterate(entry.source).replace(/[.?!]$/, '')]
+      .map(f => f.trim())
+      .filter((f, i, all) => f && all.indexOf(f) === i)
+      .sort((a, b) => b.length - a.length);
+    return { target: entry.target, pattern: new RegExp(`${BOUNDARY_BEFORE}(?:${forms.map(escapeRegExp).join('|')})${BOUNDARY_AFTER}`, 'giu') };
+  });
+  compiled.set(entries, list);
+  return list;
+};
+
+/**
+ * Deterministic pass run on every converted chunk: rewrites each known misspelling to the
+ * preferred form. Counts only replacements that changed the text.
+ */
+export const applyGlossary = (text: string, entries: GlossaryEntry[]): { text: string; counts: GlossaryCounts } => {
+  const counts: GlossaryCounts = {};
+  if (!entries.length || !text) return { text, counts };
+  let out = text;
+  for (const { target, pattern } of compile(entries)) {
+    out = out.replace(pattern, match => {
+      // Keep sentence-initial capitals when the preferred form is lower case ("dua" -> "Dua").
+      const replacement = /^\p{Lu}/u.test(match) && /^\p{Ll}/u.test(target) ? target[0].toUpperCase() + target.slice(1) : target;
+      if (replacement !== match) counts[target] = (counts[target] ?? 0) + 1;
+      return replacement;
+    });
+  }
+  return { text: out, counts };
+};
+
+export const mergeCounts = (into: GlossaryCounts, add: GlossaryCounts): GlossaryCounts => {
+  const merged = { ...into };
+  for (const [term, n] of Object.entries(add)) merged[term] = (merged[term] ?? 0) + n;
+  return merged;
+};
@@ -0,0 +1,307 @@
+import { PreprocessSettings } from '../types';
+
+// Canvas clean-up applied to every page image before it is uploaded for OCR: split two-page
+// spreads, straighten, trim margins, resize to the target resolution, reduce colour, and encode
+// within the request's byte budget.
+
+const SETTINGS_KEY = 'u2r-preprocess';
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  targetDpi: 200,
+  grayscale: true,
+  binarize: false,
+  deskew: true,
+  cropMargins: true,
+  splitSpreads: false,
+  maxRequestKB: 1500
+};
+
+export const loadPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_PREPROCESS, ...JSON.parse(raw) } : DEFAULT_PREPROCESS;
+  } catch {
+    return DEFAULT_PREPROCESS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const PAGE_LONG_EDGE_IN = 11;      // A4/Letter; photos carry no DPI, so their size is judged against a page
+const MAX_LONG_EDGE = 4000;        // Keeps canvases inside mobile memory limits
+const MIN_LONG_EDGE = 800;         // Below this Nastaliq dots and kashida are lost
+const TARGET_GLYPH_PX = 32;        // Line height at which small Nastaliq is still read reliably
+const ANALYSIS_WIDTH = 600;        // Working size for skew, margin and gutter detection
+const MAX_SKEW_DEG = 5;
+const SKEW_STEP_DEG = 0.25;
+const INK_THRESHOLD = 160;         // Luminance below which a pixel counts as ink during analysis
+const JPEG_QUALITIES = [0.8, 0.65, 0.5, 0.4];
+
+// Pages are drawn on a DOM canvas on the main thread and on an OffscreenCanvas inside the
+// document worker, which has no document.
+export type ScanCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface ScanImage {
+  data: string; // Base64, without the data: prefix
+  mimeType: string;
+  bytes: number;
+  canvas: ScanCanvas;
+}
+
+export const newCanvas = (width: number, height: number): ScanCanvas => {
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  if (typeof document === 'undefined' && typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(w, h);
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  return canvas;
+};
+
+export const context2d = (canvas: ScanCanvas) => {
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error("Canvas context init failed");
+  return context;
+};
+
+// Copies (part of) a source onto a white canvas, optionally scaled.
+const copyRegion = (source: CanvasImageSource, sx: number, sy: number, sw: number, sh: number, scale = 1) => {
+  const canvas = newCanvas(sw * scale, sh * scale);
+  const context = context2d(canvas);
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Luminance of a downscaled copy, used for every measurement so they stay cheap on big scans.
+const analysisMap = (canvas: ScanCanvas) => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / canvas.width);
+  const small = copyRegion(canvas, 0, 0, canvas.width, canvas.height, scale);
+  const { data } = context2d(small).getImageData(0, 0, small.width, small.height);
+  const luma = new Uint8Array(small.width * small.height);
+  for (let i = 0; i < luma.length; i++) luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  return { luma, width: small.width, height: small.height, scale };
+};
+
+// --- Spread splitting -------------------------------------------------------------------------
+
+// Finds the gutter of a landscape two-page scan: the emptiest column band near the middle.
+const findGutter = (canvas: ScanCanvas): number | null => {
+  if (canvas.width < canvas.height * 1.15) return null;
+  const { luma, width, height, scale } = analysisMap(canvas);
+  const ink = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) if (luma[y * width + x] < INK_THRESHOLD) ink[x]++;
+  }
+  const mean = ink.reduce((a, b) => a + b, 0) / width;
+  let best = -1;
+  let bestInk = Infinity;
+  for (let x = Math.floor(width * 0.4); x <= Math.ceil(width * 0.6); x++) {
+    const band = (ink[x - 2] ?? 0) + (ink[x - 1] ?? 0) + ink[x] + (ink[x + 1] ?? 0) + (ink[x + 2] ?? 0);
+    if (band < bestInk) { bestInk = band; best = x; }
+  }
+  return best >= 0 && bestInk / 5 < mean * 0.15 ? Math.round(best / scale) : null;
+};
+
+// --- Deskew -----------------------------------------------------------------------------------
+
+// Projection-profile skew estimate: text lines give the sharpest row histogram when level.
+const estimateSkew = (canvas: ScanCanvas): number => {
+  const { luma, width, height } = analysisMap(canvas);
+  const points: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) if (luma[y * width + x] < INK_THRESHOLD) points.push(x, y);
+  }
+  if (points.length < 200) return 0;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let deg = -MAX_SKEW_DEG; deg <= MAX_SKEW_DEG; deg += SKEW_STEP_DEG) {
+    const rad = (deg * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const rows = new Float64Array(diagonal * 2);
+    for (let i = 0; i < points.length; i += 2) rows[Math.round(points[i + 1] * cos - points[i] * sin) + diagonal]++;
+    let score = 0;
+    for (let r = 0; r < rows.length; r++) score += rows[r] * rows[r];
+    if (score > bestScore) { bestScore = score; bestAngle = deg; }
+  }
+  return bestAngle;
+};
+
+const rotate = (canvas: ScanCanvas, deg: number) => {
+  const out = newCanvas(canvas.width, canvas.height);
+  const context = context2d(out);
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, out.width, out.height);
+  context.translate(out.width / 2, out.height / 2);
+  context.rotate((-deg * Math.PI) / 180);
+  context.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return out;
+};
+
+// --- Margin cropping --------------------------------------------------------------------------
+
+// Bounding box of the rows and columns that hold a meaningful amount of ink, plus a small pad.
+const contentBox = (canvas: ScanCanvas) => {
+  const { luma, width, height, scale } = analysisMap(canvas);
+  const rows = new Uint32Array(height);
+  const cols = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luma[y * width + x] < INK_THRESHOLD) { rows[y]++; cols[x]++; }
+    }
+  }
+  const span = (counts: Uint32Array, min: number) => {
+    const first = counts.findIndex(c => c > min);
+    let last = counts.length - 1;
+    while (last > first && counts[last] <= min) last--;
+    return first < 0 ? null : [first, last];
+  };
+  const ys = span(rows, width * 0.005);
+  const xs = span(cols, height * 0.005);
+  if (!ys || !xs) return null;
+  const pad = Math.round(Math.max(width, height) * 0.02);
+  const x0 = Math.max(0, xs[0] - pad), x1 = Math.min(width, xs[1] + pad + 1);
+  const y0 = Math.max(0, ys[0] - pad), y1 = Math.min(height, ys[1] + pad + 1);
+  if ((x1 - x0) * (y1 - y0) > width * height * 0.97) return null;
+  return { x: x0 / scale, y: y0 / scale, width: (x1 - x0) / scale, height: (y1 - y0) / scale };
+};
+
+// --- Colour -----------------------------------------------------------------------------------
+
+const otsuThreshold = (histogram: Uint32Array, total: number) => {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+  let sumBack = 0;
+  let weightBack = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBack += histogram[t];
+    if (!weightBack) continue;
+    const weightFore = total - weightBack;
+    if (!weightFore) break;
+    sumBack += t * histogram[t];
+    const between = weightBack * weightFore * (sumBack / weightBack - (sum - sumBack) / weightFore) ** 2;
+    if (between > best) { best = between; threshold = t; }
+  }
+  return threshold;
+};
+
+const reduceColour = (canvas: ScanCanvas, binarize: boolean) => {
+  const context = context2d(canvas);
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    const v = Math.round(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+    data[i] = data[i + 1] = data[i + 2] = v;
+    histogram[v]++;
+  }
+  if (binarize) {
+    const threshold = otsuThreshold(histogram, data.length / 4);
+    for (let i = 0; i < data.length; i += 4) data[i] = data[i + 1] = data[i + 2] = data[i] > threshold ? 255 : 0;
+  }
+  context.putImageData(image, 0, 0);
+};
+
+// --- Encoding ---------------------------------------------------------------------------------
+
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+// Base64 of the canvas as an image file; OffscreenCanvas has no toDataURL, only an async blob.
+export const encodeCanvas = async (canvas: ScanCanvas, mimeType: string, quality?: number): Promise<string> =>
+  'toDataURL' in canvas ? canvas.toDataURL(mimeType, quality).split(',')[1] : toBase64(await canvas.convertToBlob({ type: mimeType, quality }));
+
+const encode = async (canvas: ScanCanvas, mimeType: string, quality?: number): Promise<ScanImage> => {
+  const data = await encodeCanvas(canvas, mimeType, quality);
+  return { data, mimeType, bytes: Math.floor((data.length * 3) / 4), canvas };
+};
+
+// Lossless PNG suits black-and-white pages; otherwise JPEG quality drops, then the image shrinks,
+// until it fits the budget.
+const encodeWithin = async (canvas: ScanCanvas, budget: number, binarized: boolean): Promise<ScanImage> => {
+  if (binarized) {
+    const png = await encode(canvas, 'image/png');
+    if (png.bytes <= budget) return png;
+  }
+  let current = canvas;
+  let result = await encode(current, 'image/jpeg', JPEG_QUALITIES[0]);
+  for (let round = 0; round < 4; round++) {
+    for (const quality of JPEG_QUALITIES) {
+      result = await encode(current, 'image/jpeg', quality);
+      if (result.bytes <= budget) return result;
+    }
+    const shrink = Math.max(0.5, Math.sqrt(budget / result.bytes) * 0.95);
+    if (Math.max(current.width, current.height) * shrink < MIN_LONG_EDGE) break;
+    current = copyRegion(current, 0, 0, current.width, current.height, shrink);
+  }
+  return result;
+};
+
+// --- Pipeline ---------------------------------------------------------------------------------
+
+export const targetLongEdge = (settings: PreprocessSettings) =>
+  Math.min(MAX_LONG_EDGE, Math.max(MIN_LONG_EDGE, Math.round(settings.targetDpi * PAGE_LONG_EDGE_IN)));
+
+/**
+ * Runs the enabled steps on one rendered page or photo and returns the image(s) to upload:
+ * two for a split spread, right-hand page first as Urdu books read right to left.
+ * `budgetBytes` is this page's share of the request cap. PDF pages are rendered at the right
+ * resolution already (see pdfRenderScale) and pass `keepResolution`; photos are scaled down.
+ */
+export const preprocessScan = async (
+  source: ScanCanvas,
+  settings: PreprocessSettings,
+  budgetBytes: number,
+  keepResolution = false
+): Promise<ScanImage[]> => {
+  let pages = [source];
+  const gutter = settings.splitSpreads ? findGutter(source) : null;
+  if (gutter) {
+    pages = [
+      copyRegion(source, gutter, 0, source.width - gutter, source.height),
+      copyRegion(source, 0, 0, gutter, source.height)
+    ];
+  }
+  const share = budgetBytes / pages.length;
+  const scans: ScanImage[] = [];
+  for (const page of pages) {
+    let canvas = page;
+    if (settings.deskew) {
+      const angle = estimateSkew(canvas);
+      if (angle) canvas = rotate(canvas, angle);
+    }
+    if (settings.cropMargins) {
+      const box = contentBox(canvas);
+      if (box) canvas = copyRegion(canvas, box.x, box.y, box.width, box.height);
+    }
+    const longEdge = Math.max(canvas.width, canvas.height);
+    const limit = keepResolution ? MAX_LONG_EDGE : targetLongEdge(settings);
+    if (longEdge > limit || canvas === source) {
+      canvas = copyRegion(canvas, 0, 0, canvas.width, canvas.height, Math.min(1, limit / longEdge));
+    }
+    if (settings.grayscale || settings.binarize) reduceColour(canvas, settings.binarize);
+    scans.push(await encodeWithin(canvas, share, settings.binarize));
+  }
+  return scans;
+};
+
+/**
+ * Render scale for a PDF page: the target DPI, raised when the text layer shows small type so
+ * its lines come out at least TARGET_GLYPH_PX tall, and capped at the canvas size limit.
+ */
+export const pdfRenderScale = (settings: PreprocessSettings, pageWidthPt: number, pageHeightPt: number, glyphHeightPt?: number) => {
+  const base = settings.targetDpi / 72;
+  const wanted = glyphHeightPt ? Math.max(base, TARGET_GLYPH_PX / glyphHeightPt) : base;
+  return Math.min(wanted, MAX_LONG_EDGE / Math.max(pageWidthPt, pageHeightPt));
+};
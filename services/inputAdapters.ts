@@ -0,0 +1,318 @@
+import * as pdfjs from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.mjs?url';
+import { OcrMode, PreprocessSettings, SourceScript } from '../types';
+import { classifyTextLayer } from './pageClassifier';
+import { encodeCanvas, newCanvas, pdfRenderScale, preprocessScan, ScanCanvas } from './imagePreprocess';
+import { Chapters, extractDocx, extractEpub, extractHtml, extractRtf } from './textExtractors';
+import { TiffDocument, UnsupportedTiffError } from './tiffDecoder';
+import { readZip } from './zip';
+
+// Bundled with the app rather than loaded from a CDN, so PDFs open offline.
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type InputFormat = 'pdf' | 'docx' | 'epub' | 'html' | 'rtf' | 'tiff' | 'txt' | 'image';
+
+export interface PageImage { data: string; mimeType: string; thumbnail: string; }
+
+// What one numbered unit of a document yields: its text layer, scans for the vision model (two
+// for a split spread), or neither (a blank page), with the reason when it is not plain text.
+export interface PageContent {
+  text?: string;
+  images?: PageImage[];
+  reason?: string;
+}
+
+export interface LoadOptions {
+  ocr: OcrMode;
+  preprocess: PreprocessSettings;
+  budgetBytes: number; // This page's share of the request upload cap
+  script?: SourceScript; // Script a usable text layer is written in; Urdu by default
+  signal?: AbortSignal; // Cancels a page render in progress
+}
+
+/**
+ * Common interface for every format that is converted unit by unit with page ranges and resume.
+ * PDFs and TIFFs have real pages; text documents are cut into page-sized sections.
+ */
+export interface PagedDocument {
+  readonly format: InputFormat;
+  readonly pageCount: number;
+  readonly unitLabel: 'Page' | 'Section';
+  readonly scanned: boolean; // Units are images only, so they always go to the vision model
+  loadPage(page: number, options: LoadOptions): Promise<PageContent>; // 1-based
+  renderScan?(page: number, preprocess: PreprocessSettings): Promise<ScanCanvas>; // Unprocessed, for previews
+  close?(): void; // Frees the parsed document
+}
+
+export const ACCEPTED_INPUTS = '.txt,.pdf,.docx,.epub,.html,.htm,.xhtml,.rtf,.tif,.tiff,.zip,image/*';
+
+const EXTENSIONS: Record<string, InputFormat> = {
+  pdf: 'pdf', docx: 'docx', epub: 'epub', html: 'html', htm: 'html', xhtml: 'html',
+  rtf: 'rtf', tif: 'tiff', tiff: 'tiff', txt: 'txt'
+};
+
+// Files unpacked from a ZIP have no MIME type, and the vision model needs one for images.
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif',
+  bmp: 'image/bmp', heic: 'image/heic', heif: 'image/heif'
+};
+
+const MIME_TYPES: Record<string, InputFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/epub+zip': 'epub',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+  'image/tiff': 'tiff',
+  'text/plain': 'txt'
+};
+
+export const detectFormat = (name: string, mimeType = ''): InputFormat | null => {
+  const ext = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+  return EXTENSIONS[ext] ?? (IMAGE_TYPES[ext] ? 'image' : null) ?? MIME_TYPES[mimeType] ?? (mimeType.startsWith('image/') ? 'image' : null);
+};
+
+// A plain ZIP of books to queue, as opposed to ZIP-based formats such as DOCX and EPUB.
+export const isArchive = (file: File): boolean =>
+  /\.zip$/i.test(file.name) || (!detectFormat(file.name) && /^application\/(x-)?zip(-compressed)?$/.test(file.type));
+
+// The convertible files inside a ZIP, in archive order. Folders are flattened and macOS
+// resource forks and hidden files are dropped.
+export const extractArchive = async (archive: File): Promise<File[]> => {
+  const files: File[] = [];
+  for (const [path, read] of readZip(await archive.arrayBuffer())) {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    if (!name || name.startsWith('.') || path.startsWith('__MACOSX/') || !detectFormat(name)) continue;
+    const ext = name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? '';
+    files.push(new File([await read()], name, { type: IMAGE_TYPES[ext] ?? (ext === 'pdf' ? 'application/pdf' : '') }));
+  }
+  return files;
+};
+
+// TXT streams through the byte chunker and single images go straight to the model; everything
+// else is a PagedDocument.
+export const isPagedFormat = (format: InputFormat | null): boolean =>
+  format !== null && format !== 'txt' && format !== 'image';
+
+const THUMBNAIL_WIDTH = 360; // Page scans kept for the review editor
+
+export const makeThumbnail = async (source: ScanCanvas | ImageBitmap): Promise<string> => {
+  const width = Math.min(THUMBNAIL_WIDTH, source.width);
+  const canvas = newCanvas(width, source.height * (width / source.width));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return `data:image/jpeg;base64,${await encodeCanvas(canvas, 'image/jpeg', 0.6)}`;
+};
+
+const toPageImages = async (source: ScanCanvas, preprocess: PreprocessSettings, budgetBytes: number, keepResolution = false): Promise<PageImage[]> => {
+  const images: PageImage[] = [];
+  for (const scan of await preprocessScan(source, preprocess, budgetBytes, keepResolution)) {
+    images.push({ data: scan.data, mimeType: scan.mimeType, thumbnail: await makeThumbnail(scan.canvas) });
+  }
+  return images;
+};
+
+export const bitmapCanvas = (bitmap: ImageBitmap): ScanCanvas => {
+  const canvas = newCanvas(bitmap.width, bitmap.height);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+// Photos and single scans are decoded by the browser, then go through the same clean-up as pages.
+export const imageFileCanvas = async (file: File): Promise<ScanCanvas> => bitmapCanvas(await createImageBitmap(file));
+
+export const loadImageScan = async (file: File, preprocess: PreprocessSettings, budgetBytes: number): Promise<PageImage[]> =>
+  toPageImages(await imageFileCanvas(file), preprocess, budgetBytes);
+
+const BLANK_SAMPLE_WIDTH = 200;
+const BLANK_INK_RATIO = 0.002; // Share of dark pixels below which a page counts as empty
+
+// True for a page with no visible ink: scanned blank versos, or a page holding only whitespace.
+const isBlank = (source: ScanCanvas): boolean => {
+  const width = Math.min(BLANK_SAMPLE_WIDTH, source.width);
+  const canvas = newCanvas(width, source.height * (width / source.width));
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) return false;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  let ink = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] > 0 && data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 < 160) ink++;
+  }
+  return ink / (data.length / 4) < BLANK_INK_RATIO;
+};
+
+// --- PDF --------------------------------------------------------------------------------------
+
+// Character maps (CID-keyed fonts, common in older Urdu PDFs) and the standard 14 fonts. The web
+// build copies them out of pdfjs-dist into pdfjs/ (see vite.config.ts) so they are precached;
+// the command-line tool points this at the installed package instead.
+let pdfAssetBase = `${import.meta.env?.BASE_URL ?? '/'}pdfjs/`;
+
+export const setPdfAssetBase = (base: string) => {
+  pdfAssetBase = base;
+};
+
+// pdf.js needs absolute URLs in a worker, where it cannot resolve against the page; under Node
+// these are file paths.
+const pdfAssetOptions = () => {
+  const at = (dir: string) => typeof location === 'undefined' ? `${pdfAssetBase}${dir}/` : new URL(`${pdfAssetBase}${dir}/`, location.href).href;
+  return { cMapUrl: at('cmaps'), cMapPacked: true, standardFontDataUrl: at('standard_fonts') };
+};
+
+// Inside the document worker pdf.js has no DOM: its scratch canvases come from OffscreenCanvas,
+// glyphs are drawn as paths instead of loaded as web fonts, and SVG transfer filters are skipped.
+const offscreenPdfOptions = () => typeof document !== 'undefined' || typeof OffscreenCanvas === 'undefined' ? {} : {
+  disableFontFace: true,
+  useWorkerFetch: true, // The page-side loaders resolve URLs against document.baseURI
+  canvasFactory: {
+    create: (width: number, height: number) => {
+      const canvas = new OffscreenCanvas(width, height);
+      return { canvas, context: canvas.getContext('2d') };
+    },
+    reset: (entry: any, width: number, height: number) => {
+      entry.canvas.width = width;
+      entry.canvas.height = height;
+    },
+    destroy: (entry: any) => {
+      entry.canvas.width = entry.canvas.height = 0;
+      entry.canvas = entry.context = null;
+    }
+  },
+  filterFactory: { addFilter: () => 'none', addHCMFilter: () => 'none', addHighlightHCMFilter: () => 'none', destroy: () => {} }
+};
+
+class PdfSource implements PagedDocument {
+  readonly format = 'pdf';
+  readonly unitLabel = 'Page';
+  readonly scanned = false;
+  readonly pageCount: number;
+
+  constructor(private pdf: any) {
+    this.pageCount = pdf.numPages;
+  }
+
+  async loadPage(num: number, { ocr, preprocess, budgetBytes, script, signal }: LoadOptions): Promise<PageContent> {
+    const page = await this.pdf.getPage(num);
+    let reason: string | null = 'OCR forced';
+    let glyphHeight: number | undefined;
+    if (ocr !== 'always') {
+      const items = (await page.getTextContent()).items as any[];
+      const text = items.map(it => it.str).join(' ');
+      reason = classifyTextLayer(text, script);
+      if (!reason) return { text };
+      if (ocr === 'off') return text.trim() ? { text, reason } : { reason };
+      // Mojibake layers still carry real glyph sizes, which tell how small the type is.
+      const heights = items.map(it => it.height).filter(h => h > 0).sort((a, b) => a - b);
+      glyphHeight = heights[Math.floor(heights.length / 2)];
+    }
+    const canvas = await this.render(page, preprocess, glyphHeight, signal);
+    if (reason === 'no text layer' && isBlank(canvas)) return { reason: 'blank page' };
+    return { images: await toPageImages(canvas, preprocess, budgetBytes, true), reason };
+  }
+
+  async renderScan(num: number, preprocess: PreprocessSettings): Promise<ScanCanvas> {
+    return this.render(await this.pdf.getPage(num), preprocess);
+  }
+
+  close() {
+    this.pdf.destroy();
+  }
+
+  private async render(page: any, preprocess: PreprocessSettings, glyphHeight?: number, signal?: AbortSignal): Promise<ScanCanvas> {
+    const { width, height } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: pdfRenderScale(preprocess, width, height, glyphHeight) });
+    const canvas = newCanvas(viewport.width, viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas context init failed");
+    const task = page.render({ canvasContext: context, viewport });
+    const cancel = () => task.cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      await task.promise;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+    return canvas;
+  }
+}
+
+// --- Text documents ---------------------------------------------------------------------------
+
+const SECTION_CHARS = 2500; // Roughly one printed page of Urdu prose
+
+// Packs paragraphs into sections of about SECTION_CHARS without splitting a paragraph or
+// letting a section straddle two chapters.
+export const toSections = (chapters: Chapters): string[] => {
+  const sections: string[] = [];
+  for (const chapter of chapters) {
+    let current: string[] = [];
+    let size = 0;
+    for (const para of chapter) {
+      if (size && size + para.length > SECTION_CHARS) { sections.push(current.join('\n\n')); current = []; size = 0; }
+      current.push(para);
+      size += para.length + 2;
+    }
+    if (current.length) sections.push(current.join('\n\n'));
+  }
+  return sections;
+};
+
+class SectionedSource implements PagedDocument {
+  readonly unitLabel = 'Section';
+  readonly scanned = false;
+  readonly pageCount: number;
+
+  constructor(readonly format: InputFormat, private sections: string[]) {
+    this.pageCount = sections.length;
+  }
+
+  async loadPage(num: number): Promise<PageContent> {
+    return { text: this.sections[num - 1] ?? '' };
+  }
+}
+
+// --- TIFF -------------------------------------------------------------------------------------
+
+class TiffSource implements PagedDocument {
+  readonly format = 'tiff';
+  readonly unitLabel = 'Page';
+  readonly scanned = true;
+  readonly pageCount: number;
+
+  constructor(private tiff: TiffDocument, private file: File) {
+    this.pageCount = tiff.pageCount;
+  }
+
+  async loadPage(num: number, { preprocess, budgetBytes }: LoadOptions): Promise<PageContent> {
+    return { images: await toPageImages(await this.renderScan(num), preprocess, budgetBytes), reason: 'scanned image' };
+  }
+
+  async renderScan(num: number): Promise<ScanCanvas> {
+    try {
+      const { width, height, rgba } = await this.tiff.decodePage(num);
+      const raw = newCanvas(width, height);
+      (raw.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D).putImageData(new ImageData(rgba, width, height), 0, 0);
+      return raw;
+    } catch (err) {
+      // CCITT fax and JPEG-in-TIFF: Safari decodes single-page files natively.
+      if (!(err instanceof UnsupportedTiffError) || this.pageCount > 1) throw err;
+      return bitmapCanvas(await createImageBitmap(this.file).catch(() => { throw err; }));
+    }
+  }
+}
+
+export const openDocument = async (file: File): Promise<PagedDocument> => {
+  const format = detectFormat(file.name, file.type);
+  const buffer = await file.arrayBuffer();
+  switch (format) {
+    case 'pdf': return new PdfSource(await pdfjs.getDocument({ data: buffer, ...pdfAssetOptions(), ...offscreenPdfOptions() }).promise);
+    case 'tiff': return new TiffSource(new TiffDocument(buffer), file);
+    case 'docx': return new SectionedSource(format, toSections(await extractDocx(buffer)));
+    case 'epub': return new SectionedSource(format, toSections(await extractEpub(buffer)));
+    case 'html': return new SectionedSource(format, toSections(extractHtml(buffer)));
+    case 'rtf': return new SectionedSource(format, toSections(extractRtf(buffer)));
+    default: throw new Error(`${file.name} is not a paged document.`);
+  }
+};
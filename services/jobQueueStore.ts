@@ -0,0 +1,74 @@
+import { QueueJob } from '../types';
+import { openDatabase, promisify, txDone } from './idb';
+
+const DB_NAME = 'u2r-queue';
+const DB_VERSION = 1;
+const JOBS = 'jobs';
+const FILES = 'files';     // Kept apart from JOBS so listing the queue never reads source files
+const OUTPUTS = 'outputs'; // Finished exports, keyed by job id
+
+// Batch queue persistence: job settings and status, the dropped files, and finished outputs.
+export class JobQueueStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(JOBS)) db.createObjectStore(JOBS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+      if (!db.objectStoreNames.contains(OUTPUTS)) db.createObjectStore(OUTPUTS);
+    });
+  }
+
+  async list(): Promise<QueueJob[]> {
+    const db = await this.db;
+    const jobs = await promisify<QueueJob[]>(db.transaction(JOBS, 'readonly').objectStore(JOBS).getAll());
+    return jobs.sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  async add(jobs: { job: QueueJob; file: File }[]): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction([JOBS, FILES], 'readwrite');
+    for (const { job, file } of jobs) {
+      tx.objectStore(JOBS).put(job);
+      tx.objectStore(FILES).put(file, job.id);
+    }
+    await txDone(tx);
+  }
+
+  async update(id: string, patch: Partial<Omit<QueueJob, 'id'>>): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction(JOBS, 'readwrite');
+    const store = tx.objectStore(JOBS);
+    const current = await promisify<QueueJob | undefined>(store.get(id));
+    if (current) store.put({ ...current, ...patch });
+    await txDone(tx);
+  }
+
+  async getFile(id: string): Promise<File | undefined> {
+    const db = await this.db;
+    return promisify<File | undefined>(db.transaction(FILES, 'readonly').objectStore(FILES).get(id));
+  }
+
+  async saveOutput(id: string, blob: Blob): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction(OUTPUTS, 'readwrite');
+    tx.objectStore(OUTPUTS).put(blob, id);
+    await txDone(tx);
+  }
+
+  async getOutput(id: string): Promise<Blob | undefined> {
+    const db = await this.db;
+    return promisify<Blob | undefined>(db.transaction(OUTPUTS, 'readonly').objectStore(OUTPUTS).get(id));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction([JOBS, FILES, OUTPUTS], 'readwrite');
+    for (const id of ids) {
+      tx.objectStore(JOBS).delete(id);
+      tx.objectStore(FILES).delete(id);
+      tx.objectStore(OUTPUTS).delete(id);
+    }
+    await txDone(tx);
+  }
+}
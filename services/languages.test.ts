@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { detectSource, LANGUAGES, leftoverLetters, outputLang } from './languages';
+import { transliterate } from './localTransliterator';
+import { checkOutput } from './qualityChecks';
+import { SourceLanguage } from '../types';
+
+// One fixed passage per language, long enough to detect. Each uses letters or words that set the
+// language apart from Urdu.
+const PASSAGES: Record<SourceLanguage, string> = {
+  urdu: 'میں اسکول جا رہا ہوں اور وہ بھی میرے ساتھ ہے۔ یہ کتاب اس کی ہے۔',
+  punjabi: 'اوہ ساڈے نال گل کردا سی۔ تسیں وی ساڈے نال چلو تے اسیں ہن جاندے آں۔',
+  sindhi: 'مان ڪتاب پڙهان ٿو ۽ اسان ٻئي ڳوٺ ۾ آهيون. هو سنڌي ٻولي ڄاڻي ٿو.',
+  pashto: 'زه کور ته ځم او هغه د ښار په لور ځي. دا ټول کتابونه زما دي او ته یې ولوله.',
+  kashmiri: 'بہٕ چھُس کٲشُر تہٕ سۄ چھےٚ گرٕ گژھان۔ یِم چھِ کِتابہٕ پرٛان تہٕ بہٕ چھُس لیکھان۔',
+  saraiki: 'او ساݙے نال ڳالھ کریندا ہا۔ اساں وی ہک ٻئے کوں ݙیکھدے ہن۔'
+};
+
+describe.each(Object.keys(PASSAGES) as SourceLanguage[])('%s passage', id => {
+  it('is detected', () => {
+    expect(detectSource(PASSAGES[id])).toEqual({ script: 'arabic', language: id });
+  });
+
+  it('converts offline with no letters left over', () => {
+    expect(leftoverLetters(transliterate(PASSAGES[id], LANGUAGES[id]), id)).toEqual([]);
+  });
+});
+
+// The prompt samples are the reviewed spellings for each language; the offline engine should agree.
+describe.each(Object.values(LANGUAGES).filter(language => language.samples.length))('$id prompt samples', language => {
+  it('convert offline as the prompt spells them', () => {
+    for (const [source, roman] of language.samples) {
+      const output = transliterate(source, language);
+      expect(output).toBe(roman);
+      expect(checkOutput([source], output, 'arabic', language.id)).toEqual([]);
+    }
+  });
+});
+
+describe('detectSource', () => {
+  it('needs enough letters to judge', () => {
+    expect(detectSource('اوہ ساڈے نال')).toBeNull();
+  });
+
+  it('reports Roman text as Latin script', () => {
+    expect(detectSource('Mein school ja raha hoon aur woh bhi mere saath hai.')).toEqual({ script: 'latin', language: null });
+  });
+});
+
+describe('leftoverLetters', () => {
+  it('finds the language letters a model copied through', () => {
+    expect(leftoverLetters('Asaan ٻئي ggoth ۾ aahyon', 'sindhi')).toEqual(['ٻ', '۾']);
+    expect(checkOutput([PASSAGES.sindhi], 'Asaan ٻئي ggoth ۾ aahyon', 'arabic', 'sindhi').map(issue => issue.kind)).toContain('residual-script');
+  });
+
+  it('ignores letters the language shares with Urdu', () => {
+    expect(leftoverLetters('ghar کتاب', 'sindhi')).toEqual([]);
+  });
+});
+
+describe('outputLang', () => {
+  it('tags output with the source language', () => {
+    expect(outputLang('ur-Latn', 'arabic', 'sindhi')).toBe('sd-Latn');
+    expect(outputLang('ur-Deva', 'arabic', 'punjabi')).toBe('pnb-Deva');
+    expect(outputLang('ur-Latn', 'arabic')).toBe('ur-Latn');
+    expect(outputLang('ur', 'latin', 'sindhi')).toBe('ur');
+  });
+});
@@ -0,0 +1,249 @@
+import { SourceLanguage, SourceScript } from '../types';
+
+// Perso-Arabic-script languages the converter reads. Each table lists the letters Urdu lacks or
+// reads differently, with the informal Roman value the offline engine uses and the sound the
+// prompt names, plus everyday words that identify the language. The same tables drive the
+// prompt, first-chunk detection, the text-layer check and the leftover-letter quality check.
+
+export interface LetterValue {
+  roman: string;  // Informal Roman spelling
+  sound: string;  // What the prompt tells the model the letter is
+  vowel?: boolean;
+}
+
+export interface LanguageDefinition {
+  id: SourceLanguage;
+  label: string;  // Selector and export metadata
+  name: string;   // How prompts name the source, e.g. "Sindhi"
+  lang: string;   // BCP 47 tag of the language
+  letters: Record<string, LetterValue>;
+  words: Record<string, string>; // Everyday words -> informal Roman
+  rules: string[];
+  samples: [string, string][]; // Source -> informal Roman, shown to the model as examples
+}
+
+export const DEFAULT_LANGUAGE: SourceLanguage = 'urdu';
+
+// Letters the Urdu alphabet already has; anything else in a language's table marks that language.
+const URDU_ALPHABET = new Set(Array.from('ءآأؤئابپتٹثجچحخدڈذرڑزژسشصضطظعغفقکگلمنںوہھۂیےۓ'));
+
+const IMPLOSIVES: Record<string, LetterValue> = {
+  'ٻ': { roman: 'bb', sound: 'implosive b' },
+  'ڄ': { roman: 'jj', sound: 'implosive j' },
+  'ڳ': { roman: 'gg', sound: 'implosive g' }
+};
+
+export const LANGUAGES: Record<SourceLanguage, LanguageDefinition> = {
+  urdu: {
+    id: 'urdu',
+    label: 'Urdu',
+    name: 'Urdu',
+    lang: 'ur',
+    letters: {},
+    words: {
+      'کے': 'ke', 'کی': 'ki', 'کا': 'ka', 'کو': 'ko', 'میں': 'mein', 'نے': 'ne', 'سے': 'se', 'ہے': 'hai',
+      'ہیں': 'hain', 'اور': 'aur', 'پر': 'par', 'یہ': 'yeh', 'وہ': 'woh', 'تھا': 'tha', 'تھی': 'thi',
+      'تھے': 'the', 'ہو': 'ho', 'بھی': 'bhi', 'نہیں': 'nahin', 'کہ': 'keh', 'جو': 'jo', 'تو': 'to',
+      'اس': 'is', 'ان': 'un', 'ایک': 'aik', 'لیے': 'liye', 'کر': 'kar', 'گیا': 'gaya', 'ہی': 'hi',
+      'تک': 'tak', 'جب': 'jab', 'اپنے': 'apne'
+    },
+    rules: [],
+    samples: []
+  },
+  punjabi: {
+    id: 'punjabi',
+    label: 'Punjabi (Shahmukhi)',
+    name: 'Shahmukhi Punjabi',
+    lang: 'pnb',
+    letters: {
+      'ݨ': { roman: 'n', sound: 'retroflex n' },
+      'ڵ': { roman: 'l', sound: 'retroflex l' }
+    },
+    words: {
+      'دا': 'da', 'دی': 'di', 'دے': 'de', 'نوں': 'nu', 'وچ': 'vich', 'تے': 'te', 'سی': 'si', 'نئیں': 'nahin',
+      'ایہہ': 'eh', 'اوہ': 'oh', 'ساڈا': 'saada', 'ساڈے': 'saade', 'تسیں': 'tusin', 'اسیں': 'asin',
+      'نال': 'naal', 'توں': 'ton', 'ہن': 'hun', 'وی': 'vi', 'کیہ': 'ki', 'میں': 'main', 'گل': 'gall',
+      'رہیا': 'rehya', 'واں': 'vaan'
+    },
+    rules: [
+      'The source is Punjabi in Shahmukhi script. Write Punjabi pronunciation (da, nu, vich, tusin), not the Urdu equivalent words.',
+      'Keep doubled consonants as they are spoken (gall, kamm).'
+    ],
+    samples: [
+      ['میں گھر جا رہیا واں', 'Main ghar ja rehya vaan'],
+      ['اوہ ساڈے نال گل کردا سی۔', 'Oh saade naal gall karda si.']
+    ]
+  },
+  sindhi: {
+    id: 'sindhi',
+    label: 'Sindhi',
+    name: 'Sindhi',
+    lang: 'sd',
+    letters: {
+      ...IMPLOSIVES,
+      'ڏ': { roman: 'dd', sound: 'implosive d' },
+      'ڀ': { roman: 'bh', sound: 'aspirated b' },
+      'ٽ': { roman: 't', sound: 'retroflex t' },
+      'ٿ': { roman: 'th', sound: 'aspirated t' },
+      'ٺ': { roman: 'th', sound: 'aspirated retroflex t' },
+      'ڃ': { roman: 'ny', sound: 'palatal n' },
+      'ڇ': { roman: 'chh', sound: 'aspirated ch' },
+      'ڊ': { roman: 'd', sound: 'retroflex d' },
+      'ڌ': { roman: 'dh', sound: 'aspirated d' },
+      'ڍ': { roman: 'dh', sound: 'aspirated retroflex d' },
+      'ڙ': { roman: 'r', sound: 'retroflex flap r' },
+      'ڦ': { roman: 'ph', sound: 'aspirated p' },
+      'ڪ': { roman: 'k', sound: 'plain k' },
+      'ک': { roman: 'kh', sound: 'aspirated k (kh), unlike Urdu' },
+      'ڱ': { roman: 'ng', sound: 'velar n' },
+      'ڻ': { roman: 'n', sound: 'retroflex n' },
+      '۽': { roman: 'ain', sound: 'the word "and"', vowel: true },
+      '۾': { roman: 'mein', sound: 'the postposition "in"', vowel: true }
+    },
+    words: {
+      'جی': 'ji', 'جا': 'ja', 'سان': 'saan', 'آہی': 'aahe', 'آہن': 'aahin', 'تہ': 'ta', 'پڻ': 'pin',
+      'مان': 'maan', 'اسان': 'asaan', 'ٿو': 'tho', 'ٿی': 'thi', 'ٿا': 'tha', 'ہن': 'hin', 'ڪری': 'kare',
+      'ہو': 'hu', 'گہر': 'ghar', 'وڃان': 'wanjaan', 'ڪتاب': 'kitaab', 'سنڌی': 'Sindhi'
+    },
+    rules: [
+      'The source is Sindhi in its Perso-Arabic script. Write Sindhi pronunciation, not the Urdu equivalent words.',
+      'In Sindhi ک is an aspirated kh and ڪ a plain k; ه after a consonant marks aspiration (گهر -> ghar).',
+      'Write the implosives ٻ ڄ ڏ ڳ as doubled letters (bb, jj, dd, gg) so they stay distinct from ب ج د گ.'
+    ],
+    samples: [
+      ['مان گهر وڃان ٿو', 'Maan ghar wanjaan tho'],
+      ['هو ڪتاب پڙهي رهيو آهي.', 'Hu kitaab parhi rahyo aahe.']
+    ]
+  },
+  pashto: {
+    id: 'pashto',
+    label: 'Pashto',
+    name: 'Pashto',
+    lang: 'ps',
+    letters: {
+      'ټ': { roman: 't', sound: 'retroflex t' },
+      'ډ': { roman: 'd', sound: 'retroflex d' },
+      'ړ': { roman: 'r', sound: 'retroflex r' },
+      'ږ': { roman: 'zh', sound: 'retroflex zh (g in northern dialects)' },
+      'ښ': { roman: 'sh', sound: 'retroflex sh (kh in northern dialects)' },
+      'ځ': { roman: 'dz', sound: 'dz' },
+      'څ': { roman: 'ts', sound: 'ts' },
+      'ګ': { roman: 'g', sound: 'g' },
+      'ڼ': { roman: 'n', sound: 'retroflex n' },
+      'ې': { roman: 'e', sound: 'long e', vowel: true },
+      'ۍ': { roman: 'ai', sound: 'the ending ai', vowel: true }
+    },
+    words: {
+      'د': 'da', 'پہ': 'pa', 'لہ': 'la', 'سرہ': 'sara', 'کې': 'ke', 'چې': 'che', 'او': 'aw', 'یو': 'yaw',
+      'دہ': 'da', 'وو': 'wu', 'زہ': 'za', 'تہ': 'ta', 'ہغہ': 'hagha', 'دې': 'de', 'ټول': 'tol', 'شو': 'sho',
+      'لولی': 'lwali', 'کتابونہ': 'kitabuna'
+    },
+    rules: [
+      'The source is Pashto. Write Pashto pronunciation, not the Urdu equivalent words.',
+      'ښ and ږ differ by dialect; write sh and zh throughout unless the glossary says otherwise.'
+    ],
+    samples: [
+      ['زه کور ته ځم', 'Za kor ta dzam'],
+      ['هغه کتاب لولي.', 'Hagha kitab lwali.']
+    ]
+  },
+  kashmiri: {
+    id: 'kashmiri',
+    label: 'Kashmiri',
+    name: 'Kashmiri',
+    lang: 'ks',
+    letters: {
+      'ٲ': { roman: 'a', sound: 'central vowel ä', vowel: true },
+      'ۄ': { roman: 'o', sound: 'short o', vowel: true },
+      'ێ': { roman: 'e', sound: 'short e', vowel: true },
+      'ؠ': { roman: 'y', sound: 'palatalising y' },
+      'ژ': { roman: 'ts', sound: 'ts, not the Urdu zh' },
+      'ٕ': { roman: 'u', sound: 'vowel sign for the central vowel ü', vowel: true },
+      'ٚ': { roman: 'e', sound: 'vowel sign for the central vowel ë', vowel: true }
+    },
+    words: { 'چھُ': 'chhu', 'چھِ': 'chhi', 'تہٕ': 'ti', 'بہٕ': 'bu', 'چھُس': 'chhus', 'کٲشُر': 'Koshur' },
+    rules: [
+      'The source is Kashmiri in Perso-Arabic script. Write Kashmiri pronunciation, not the Urdu equivalent words.',
+      'Write the Kashmiri vowel letters and vowel signs with the nearest plain vowel instead of dropping them.'
+    ],
+    samples: [
+      ['بہٕ چھُس کٲشُر', 'Bu chhus Koshur']
+    ]
+  },
+  saraiki: {
+    id: 'saraiki',
+    label: 'Saraiki',
+    name: 'Saraiki',
+    lang: 'skr',
+    letters: {
+      ...IMPLOSIVES,
+      'ݙ': { roman: 'dd', sound: 'implosive d' },
+      'ݨ': { roman: 'n', sound: 'retroflex n' }
+    },
+    words: {
+      'دا': 'da', 'دی': 'di', 'دے': 'de', 'کوں': 'kun', 'وچ': 'vich', 'تے': 'te', 'ہن': 'hin', 'ہا': 'ha',
+      'نال': 'naal', 'اساں': 'asaan', 'تساں': 'tusaan', 'ساݙا': 'saada', 'ساݙے': 'saade', 'ایہ': 'eh',
+      'او': 'oh', 'میں': 'main', 'وی': 'vi', 'ڳالھ': 'gaalh', 'ہک': 'hik', 'ویندا': 'vinda', 'پیا': 'piya',
+      'ہاں': 'haan', 'کریندا': 'karenda'
+    },
+    rules: [
+      'The source is Saraiki in Perso-Arabic script. Write Saraiki pronunciation, not Urdu or Punjabi equivalents.',
+      'Write the implosives ٻ ڄ ݙ ڳ as doubled letters (bb, jj, dd, gg) so they stay distinct from ب ج ڈ گ.'
+    ],
+    samples: [
+      ['میں گھر ویندا پیا ہاں', 'Main ghar vinda piya haan'],
+      ['او ساݙے نال ڳالھ کریندا ہا۔', 'Oh saade naal gaalh karenda ha.']
+    ]
+  }
+};
+
+export const languageFor = (id?: SourceLanguage): LanguageDefinition => LANGUAGES[id ?? DEFAULT_LANGUAGE] ?? LANGUAGES[DEFAULT_LANGUAGE];
+
+// Arabic-keyboard code points, folded so word lists written with Urdu letters match.
+const FOLD: Record<string, string> = { 'ي': 'ی', 'ى': 'ی', 'ك': 'ک', 'ه': 'ہ' };
+export const foldLetters = (text: string) => text.replace(/[يىكه]/g, ch => FOLD[ch]);
+
+const WORD_SPLIT = /[\s‌‏؟،۔.,:;!?()"'«»]+/;
+
+/** Everyday words of every language, for telling real text from a broken text layer. */
+export const EVERYDAY_WORDS = new Set(Object.values(LANGUAGES).flatMap(l => Object.keys(l.words).map(foldLetters)));
+
+const distinctiveLetters = (language: LanguageDefinition) => Object.keys(language.letters).filter(ch => !URDU_ALPHABET.has(ch));
+const distinctiveWords = (language: LanguageDefinition) =>
+  new Set(Object.keys(language.words).map(foldLetters).filter(w => language.id === 'urdu' || !(w in LANGUAGES.urdu.words)));
+
+const MIN_DETECT_LETTERS = 40; // Fewer letters than this say too little about the language
+const LETTER_WEIGHT = 3; // A letter Urdu lacks is stronger evidence than a shared-looking word
+
+export type DetectedSource = { script: 'arabic'; language: SourceLanguage } | { script: 'latin'; language: null };
+
+/** Script and language of a sample of source text, or null when it is too short to tell. */
+export const detectSource = (text: string): DetectedSource | null => {
+  const arabic = text.match(/[ؠ-يٮ-ۿݐ-ݿ]/g)?.length ?? 0;
+  const latin = text.match(/[A-Za-z]/g)?.length ?? 0;
+  if (arabic + latin < MIN_DETECT_LETTERS) return null;
+  if (latin > arabic) return { script: 'latin', language: null };
+
+  const words = foldLetters(text.normalize('NFC')).split(WORD_SPLIT).filter(Boolean);
+  let best: { language: SourceLanguage; score: number } = { language: DEFAULT_LANGUAGE, score: 0 };
+  for (const language of Object.values(LANGUAGES)) {
+    const letters = new Set(distinctiveLetters(language));
+    const vocabulary = distinctiveWords(language);
+    let score = 0;
+    for (const ch of text) if (letters.has(ch)) score += LETTER_WEIGHT;
+    for (const word of words) if (vocabulary.has(word)) score++;
+    // Urdu wins ties: a passage with no marks of another language is read as Urdu.
+    if (score > best.score) best = { language: language.id, score };
+  }
+  return { script: 'arabic', language: best.language };
+};
+
+/** Letters of `language` that are not in Urdu, as found in `text`; models tend to copy these through unconverted. */
+export const leftoverLetters = (text: string, language: SourceLanguage): string[] => {
+  const letters = new Set(distinctiveLetters(languageFor(language)));
+  return [...new Set(Array.from(text).filter(ch => letters.has(ch)))];
+};
+
+/** BCP 47 tag of output in `schemeLang` (e.g. ur-Latn) when the source was `language`. */
+export const outputLang = (schemeLang: string, sourceScript: SourceScript, language?: SourceLanguage) =>
+  sourceScript === 'arabic' && language ? schemeLang.replace(/^ur\b/, languageFor(language).lang) : schemeLang;
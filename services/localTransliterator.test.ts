@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { LocalTransliterator, transliterate } from './localTransliterator';
+
+// Golden pairs for the offline engine: source -> exact expected Roman. A change to the rules
+// that moves any of these is a change in output users will see.
+const GOLDEN: [string, string][] = [
+  ['میں اسکول جا رہا ہوں', 'Mein school ja raha hoon'],
+  ['میں اسکول جا رہا ہوں۔ وہ گھر پر ہے۔', 'Mein school ja raha hoon. Woh ghar par hai.'],
+  // Izafat: a zer or hamza on the last letter links the word to the next with -e.
+  ['دلِ ناداں', 'Dil-e nadan'],
+  ['کتابِ زندگی', 'Kitab-e zindagi'],
+  ['نغمۂ دل', 'Naghma-e dil'],
+  // Do-chashmi he aspirates the consonant before it.
+  ['پھل', 'Phal'],
+  ['بھائی', 'Bhai'],
+  // Word-final choti he after a consonant is a vowel, not h.
+  ['کمرہ', 'Kamra'],
+  ['بچہ', 'Bacha'],
+  ['راہ', 'Rah'],
+];
+
+describe('transliterate', () => {
+  it.each(GOLDEN)('%s', (source, roman) => {
+    expect(transliterate(source)).toBe(roman);
+  });
+
+  it('folds Arabic-keyboard letters before converting', () => {
+    expect(transliterate('كتاب')).toBe(transliterate('کتاب'));
+  });
+});
+
+describe('LocalTransliterator', () => {
+  it('streams one paragraph at a time', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of new LocalTransliterator().convertStream(['میں اسکول جا رہا ہوں\nوہ گھر پر ہے'])) chunks.push(chunk);
+    expect(chunks.join('')).toBe('Mein school ja raha hoon\nWoh ghar par hai');
+  });
+
+  it('refuses images', async () => {
+    const stream = new LocalTransliterator().convertStream([{ data: '', mimeType: 'image/png' }]);
+    await expect(stream.next()).rejects.toThrow(/cannot read images/);
+  });
+});
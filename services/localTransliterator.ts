@@ -0,0 +1,208 @@
+import { ConvertOptions, ProviderError, StreamInput, TransliterationProvider } from './transliterationProvider';
+import { PAGE_MARKER } from './pageAlignment';
+import { schemeFor } from './schemes';
+import { LanguageDefinition, languageFor } from './languages';
+
+// Rule-based Urdu -> Roman engine. Deterministic and fully offline; accuracy is
+// below the cloud model for unvocalised text, so common words go through WORD_EXCEPTIONS first.
+// Other Perso-Arabic languages add their letters and everyday words from services/languages.
+
+const ZABAR = 'َ';
+const ZER = 'ِ';
+const PESH = 'ُ';
+const TASHDEED = 'ّ';
+const SUKUN = 'ْ';
+const TANWEEN = 'ً';
+const KHARI_ZABAR = 'ٰ';
+const HAMZA_ABOVE = 'ٔ';
+
+const AERAB: Record<string, string> = { [ZABAR]: 'a', [ZER]: 'i', [PESH]: 'u', [TANWEEN]: 'an', [KHARI_ZABAR]: 'a' };
+const DIACRITICS = new Set([ZABAR, ZER, PESH, TASHDEED, SUKUN, TANWEEN, KHARI_ZABAR, HAMZA_ABOVE]);
+// Every Arabic-script combining mark; those neither above nor in the language's table are dropped.
+const MARK = /[\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E4\u06E7\u06E8\u06EA-\u06ED]/;
+
+const CONSONANTS: Record<string, string> = {
+  'ب': 'b', 'پ': 'p', 'ت': 't', 'ٹ': 't', 'ث': 's', 'ج': 'j', 'چ': 'ch', 'ح': 'h', 'خ': 'kh',
+  'د': 'd', 'ڈ': 'd', 'ذ': 'z', 'ر': 'r', 'ڑ': 'r', 'ز': 'z', 'ژ': 'zh', 'س': 's', 'ش': 'sh',
+  'ص': 's', 'ض': 'z', 'ط': 't', 'ظ': 'z', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ک': 'k', 'گ': 'g',
+  'ل': 'l', 'م': 'm', 'ن': 'n',
+};
+
+// Variant code points from Arabic keyboards and presentation forms, folded to the Urdu letters above.
+const NORMALIZE: Record<string, string> = {
+  'ي': 'ی', 'ى': 'ی', 'ك': 'ک', 'ه': 'ہ', 'ة': 'ہ', 'ۀ': 'ۂ', 'أ': 'ا', 'إ': 'ا', 'ٱ': 'ا',
+};
+
+const PUNCTUATION: Record<string, string> = {
+  '۔': '.', '،': ',', '؟': '?', '؛': ';', '٪': '%', '«': '"', '»': '"',
+  '۰': '0', '۱': '1', '۲': '2', '۳': '3', '۴': '4', '۵': '5', '۶': '6', '۷': '7', '۸': '8', '۹': '9',
+  '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4', '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9',
+};
+
+export const WORD_EXCEPTIONS: Record<string, string> = {
+  'میں': 'mein', 'ہوں': 'hoon', 'ہے': 'hai', 'ہیں': 'hain', 'ہو': 'ho', 'تھا': 'tha', 'تھی': 'thi',
+  'تھے': 'the', 'تھیں': 'thin', 'رہا': 'raha', 'رہی': 'rahi', 'رہے': 'rahe', 'جا': 'ja', 'کا': 'ka',
+  'کی': 'ki', 'کے': 'ke', 'کو': 'ko', 'نے': 'ne', 'سے': 'se', 'پر': 'par', 'اور': 'aur', 'یہ': 'yeh',
+  'وہ': 'woh', 'نہیں': 'nahin', 'نہ': 'na', 'کیا': 'kya', 'کیوں': 'kyun', 'کب': 'kab', 'کہاں': 'kahan',
+  'کون': 'kaun', 'کیسے': 'kaise', 'ہم': 'hum', 'تم': 'tum', 'آپ': 'aap', 'اس': 'is', 'ان': 'un',
+  'اُس': 'us', 'اُن': 'un', 'بھی': 'bhi', 'تو': 'to', 'جو': 'jo', 'کہ': 'keh', 'گا': 'ga', 'گی': 'gi',
+  'گے': 'ge', 'ایک': 'aik', 'دو': 'do', 'تین': 'teen', 'مجھے': 'mujhe', 'تمہیں': 'tumhein',
+  'ہمیں': 'humein', 'انہیں': 'unhein', 'اپنا': 'apna', 'اپنی': 'apni', 'اپنے': 'apne', 'میرا': 'mera',
+  'میری': 'meri', 'میرے': 'mere', 'تیرا': 'tera', 'لیے': 'liye', 'لئے': 'liye', 'ساتھ': 'saath',
+  'بہت': 'bohat', 'اب': 'ab', 'جب': 'jab', 'تب': 'tab', 'پھر': 'phir', 'کچھ': 'kuch', 'سب': 'sab',
+  'دن': 'din', 'رات': 'raat', 'دل': 'dil', 'گھر': 'ghar', 'کام': 'kaam', 'بات': 'baat', 'لوگ': 'log',
+  'کتاب': 'kitab', 'زندگی': 'zindagi', 'اسکول': 'school', 'سکول': 'school', 'اللہ': 'Allah', 'خدا': 'Khuda',
+  'محمد': 'Muhammad', 'پاکستان': 'Pakistan', 'اردو': 'Urdu', 'انگریزی': 'Angrezi',
+};
+
+const isArabicLetter = (ch: string) => /[ء-يٮ-ۓەۺ-ۿ]/.test(ch) && !(ch in PUNCTUATION);
+const isWordChar = (ch: string, language: LanguageDefinition) => isArabicLetter(ch) || MARK.test(ch) || ch in language.letters;
+
+interface Segment { roman: string; vowel: boolean; explicitVowel?: boolean; }
+
+// Transliterates one word (letters + aerab) without dictionary lookup.
+const transliterateWord = (word: string, language: LanguageDefinition): string => {
+  word = Array.from(word).filter(c => !MARK.test(c) || DIACRITICS.has(c) || c in language.letters).join('');
+  let izafat = false;
+  if (word.endsWith(ZER) && word.length > 2) { izafat = true; word = word.slice(0, -1); }
+  if (word.endsWith('ۂ') || word.endsWith('ہ' + HAMZA_ABOVE)) {
+    izafat = true;
+    word = word.replace(/(ۂ|ۂ)$/, 'ہ');
+  }
+
+  const chars = Array.from(word);
+  const letters = chars.filter(c => !DIACRITICS.has(c));
+  const segs: Segment[] = [];
+  let letterIdx = -1;
+
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const prev = segs[segs.length - 1];
+
+    if (DIACRITICS.has(ch)) {
+      if (ch === TASHDEED && prev && !prev.vowel) prev.roman += prev.roman.slice(-1);
+      else if (ch in AERAB && prev) { prev.roman += AERAB[ch]; prev.explicitVowel = true; }
+      continue;
+    }
+
+    letterIdx++;
+    const isFirst = letterIdx === 0;
+    const isLast = letterIdx === letters.length - 1;
+    const next = letters[letterIdx + 1];
+
+    // The language's own letters, including Urdu ones it reads differently (Sindhi ک is kh).
+    const own = language.letters[ch];
+    if (own) { segs.push({ roman: own.roman, vowel: !!own.vowel }); continue; }
+
+    if (ch === 'ھ') {
+      // Do-chashmi he aspirates the preceding consonant (bh, ph, th, kh...).
+      if (prev) prev.roman += 'h'; else segs.push({ roman: 'h', vowel: false });
+      continue;
+    }
+    if (ch === 'ں') { segs.push({ roman: 'n', vowel: false }); continue; }
+    if (ch === 'آ') { segs.push({ roman: 'aa', vowel: true }); continue; }
+    if (ch === 'ا') {
+      // Initial alif before a vowel letter only carries it (us, is, ek).
+      segs.push({ roman: isFirst && (next === 'و' || next === 'ی' || next === 'ے') ? '' : 'a', vowel: true });
+      continue;
+    }
+    if (ch === 'ع') { segs.push({ roman: isFirst ? 'a' : '', vowel: true }); continue; }
+    if (ch === 'ء' || ch === 'ئ') { segs.push({ roman: next === 'ے' || next === 'ی' ? '' : 'i', vowel: true }); continue; }
+    if (ch === 'و') {
+      if (isFirst || (next && (next === 'ا' || next === 'ی' || next === 'ے'))) segs.push({ roman: 'w', vowel: false });
+      else segs.push({ roman: 'o', vowel: true });
+      continue;
+    }
+    if (ch === 'ی') {
+      if (isFirst || next === 'ا' || next === 'و') segs.push({ roman: 'y', vowel: false });
+      else if (next === 'ں') segs.push({ roman: 'ei', vowel: true });
+      else if (isLast) segs.push({ roman: 'i', vowel: true });
+      else segs.push({ roman: prev?.vowel ? 'y' : 'ee', vowel: !prev?.vowel });
+      continue;
+    }
+    if (ch === 'ے') { segs.push({ roman: prev?.vowel && prev.roman ? 'ye' : 'e', vowel: true }); continue; }
+    if (ch === 'ہ') {
+      // Word-final choti he after a consonant is a vowel (kamra, bacha).
+      if (isLast && !isFirst) segs.push({ roman: prev?.vowel ? 'h' : 'a', vowel: true });
+      else segs.push({ roman: 'h', vowel: false });
+      continue;
+    }
+    if (ch in CONSONANTS) { segs.push({ roman: CONSONANTS[ch], vowel: false }); continue; }
+    segs.push({ roman: '', vowel: true });
+  }
+
+  // Insert the inherent short 'a' in unvocalised consonant clusters, alternating onset/coda.
+  let out = '';
+  let needVowel = true;
+  for (let i = 0; i < segs.length; i++) {
+    const seg = segs[i];
+    out += seg.roman;
+    if (seg.vowel || seg.explicitVowel) { needVowel = false; continue; }
+    const nextSeg = segs[i + 1];
+    if (nextSeg && !nextSeg.vowel && needVowel) {
+      out += 'a';
+      needVowel = false;
+    } else {
+      needVowel = true;
+    }
+  }
+
+  return izafat ? `${out}-e` : out;
+};
+
+const romanizeWord = (word: string, language: LanguageDefinition): string => {
+  // Word lists with vowel signs (Kashmiri چھِ) match as written, before a final zer is read as izafat.
+  if (language.words[word]) return language.words[word];
+  const bare = Array.from(word).filter(c => !DIACRITICS.has(c) || c === ZER).join('');
+  const key = bare.endsWith(ZER) ? bare.slice(0, -1) : bare;
+  const plain = key.replace(new RegExp(ZER, 'g'), '');
+  const known = language.words[plain] ?? WORD_EXCEPTIONS[plain];
+  if (known) return known + (bare.endsWith(ZER) ? '-e' : '');
+  return transliterateWord(word, language);
+};
+
+const capitalizeSentences = (text: string): string =>
+  text.replace(/(^|[.?!]\s+|\n\s*)([a-z])/g, (_m, lead: string, ch: string) => lead + ch.toUpperCase());
+
+export const transliterate = (input: string, language: LanguageDefinition = languageFor()): string => {
+  const text = Array.from(input.normalize('NFC')).map(c => NORMALIZE[c] ?? c).join('');
+  let out = '';
+  let word = '';
+  const flush = () => {
+    if (word) out += romanizeWord(word, language);
+    word = '';
+  };
+  for (const ch of text) {
+    if (isWordChar(ch, language)) { word += ch; continue; }
+    flush();
+    out += PUNCTUATION[ch] ?? (ch === '‌' || ch === '‏' || ch === '‎' ? '' : ch);
+  }
+  flush();
+  return capitalizeSentences(out);
+};
+
+export class LocalTransliterator implements TransliterationProvider {
+  readonly id = 'local';
+  readonly label = 'Offline Rules Engine';
+  readonly supportsImages = false;
+
+  async *convertStream(inputs: StreamInput[], options: ConvertOptions = {}): AsyncGenerator<string> {
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+      if (typeof input !== 'string') {
+        throw new ProviderError('Offline engine cannot read images. Enable the cloud provider for OCR.', { retryable: false });
+      }
+      const scheme = schemeFor(options.scheme);
+      if (!scheme.offline) {
+        throw new ProviderError(`Offline engine cannot produce ${scheme.label}. Use a cloud provider for this scheme.`, { retryable: false });
+      }
+      if (options.pages) yield `${PAGE_MARKER(options.pages[i])}\n`;
+      // Yield per paragraph so the live feed streams like the cloud providers do.
+      const paragraphs = input.split(/(\n+)/);
+      for (const para of paragraphs) {
+        if (para) yield transliterate(para, languageFor(options.language));
+      }
+      if (i < inputs.length - 1) yield '\n\n';
+    }
+  }
+}
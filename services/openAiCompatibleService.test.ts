@@ -0,0 +1,94 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleService } from './openAiCompatibleService';
+import { ProviderError } from './transliterationProvider';
+import { TokenUsage } from '../types';
+
+// A local OpenAI-compatible server; the model name picks the response.
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+const RESPONSES: Record<string, (res: ServerResponse) => void> = {
+  // SSE split mid-line across writes, a keep-alive comment, usage, then text after [DONE] that must be ignored.
+  stream: res => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const body = ': keep-alive\n\n' + delta('Mein school') + delta(' ja raha') + delta(' hoon') +
+      `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 30, completion_tokens: 5 } })}\n\n` +
+      'data: [DONE]\n\n' + delta(' ignored');
+    const pieces = [body.slice(0, 7), body.slice(7, 60), body.slice(60, 61), body.slice(61)];
+    const write = () => pieces.length ? res.write(pieces.shift(), () => setTimeout(write, 5)) : res.end();
+    write();
+  },
+  limited: res => {
+    res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '7' });
+    res.end(JSON.stringify({ error: { message: 'Too many requests' } }));
+  },
+  unauthorized: res => {
+    res.writeHead(401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Invalid key' } }));
+  }
+};
+
+const requests: any[] = [];
+const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const json = JSON.parse(body);
+    requests.push({ url: req.url, authorization: req.headers.authorization, body: json });
+    RESPONSES[json.model](res);
+  });
+});
+
+let endpoint: string;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const failure = async (model: string): Promise<ProviderError> => {
+  try {
+    for await (const _ of new OpenAICompatibleService({ endpoint, model }).convertStream(['میں'])) { /* drain */ }
+  } catch (err) {
+    return err as ProviderError;
+  }
+  throw new Error('Expected the stream to fail');
+};
+
+describe('OpenAICompatibleService', () => {
+  it('streams the deltas of chunked data: lines and stops at [DONE]', async () => {
+    const usage: TokenUsage[] = [];
+    const service = new OpenAICompatibleService({ endpoint, model: 'stream', apiKey: 'secret' });
+    const chunks: string[] = [];
+    for await (const chunk of service.convertStream(['میں اسکول جا رہا ہوں'], { onUsage: u => usage.push(u) })) chunks.push(chunk);
+
+    expect(chunks).toEqual(['Mein school', ' ja raha', ' hoon']);
+    expect(usage).toEqual([{ inputTokens: 30, outputTokens: 5 }]);
+    const request = requests.at(-1);
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.authorization).toBe('Bearer secret');
+    expect(request.body).toMatchObject({ model: 'stream', stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('maps a 429 with Retry-After to a retryable ProviderError', async () => {
+    const error = await failure('limited');
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.retryable).toBe(true);
+    expect(error.message).toContain('Too many requests');
+  });
+
+  it('maps a 401 to an error that is not retried', async () => {
+    const error = await failure('unauthorized');
+    expect(error.status).toBe(401);
+    expect(error.retryable).toBe(false);
+  });
+});
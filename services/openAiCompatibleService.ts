@@ -0,0 +1,99 @@
+import { ConvertOptions, ProviderError, StreamInput, TransliterationProvider, parseRetryAfter } from './transliterationProvider';
+import { buildDirective, labelInputs, systemInstruction } from './prompts';
+
+// Streams chat completions from any OpenAI-compatible server (llama.cpp, Ollama, vLLM, LM Studio).
+export class OpenAICompatibleService implements TransliterationProvider {
+  readonly id = 'openai';
+  readonly label = 'OpenAI-Compatible';
+  readonly supportsImages = true; // Only vision models (llava, qwen-vl...) will actually read them
+  private endpoint: string;
+  readonly model: string;
+  private apiKey: string;
+
+  constructor(options: { endpoint: string; model: string; apiKey?: string }) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey || '';
+  }
+
+  async *convertStream(inputs: StreamInput[], options: ConvertOptions = {}): AsyncGenerator<string> {
+    const content = labelInputs(inputs, options).map(input =>
+      typeof input === 'string'
+        ? { type: 'text', text: input }
+        : { type: 'image_url', image_url: { url: `data:${input.mimeType};base64,${input.data}` } }
+    );
+    content.push({ type: 'text', text: buildDirective(options) });
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    try {
+      const res = await fetch(`${this.endpoint}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: 0.1,
+          messages: [
+            { role: 'system', content: systemInstruction(options) },
+            { role: 'user', content }
+          ]
+        })
+      });
+      if (!res.ok || !res.body) {
+        throw new ProviderError(`HTTP ${res.status}: ${(await res.text().catch(() => '')).slice(0, 200)}`, {
+          status: res.status,
+          retryAfterMs: parseRetryAfter(res.headers.get('Retry-After'))
+        });
+      }
+
+      reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const text = this.parseEvent(line, options.onUsage);
+          if (text === null) return;
+          if (text) yield text;
+        }
+      }
+      const tail = this.parseEvent(buffer, options.onUsage);
+      if (tail) yield tail;
+    } catch (error: any) {
+      console.error('OpenAI-Compatible Stream Error Detail:', error);
+      const msg = error?.message || 'Streaming conversion failed.';
+      throw new ProviderError(`AI Uplink Error: ${msg}`, {
+        status: error instanceof ProviderError ? error.status : undefined,
+        retryAfterMs: error instanceof ProviderError ? error.retryAfterMs : undefined
+      });
+    } finally {
+      reader?.cancel().catch(() => {});
+    }
+  }
+
+  // Returns the delta text of one SSE line, '' for keep-alives and null at [DONE]. The usage
+  // event that servers send before [DONE] is reported through `onUsage`.
+  private parseEvent(line: string, onUsage?: ConvertOptions['onUsage']): string | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return '';
+    const payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') return null;
+    try {
+      const json = JSON.parse(payload);
+      if (json.error) throw new Error(json.error.message || String(json.error));
+      if (json.usage) onUsage?.({ inputTokens: json.usage.prompt_tokens ?? 0, outputTokens: json.usage.completion_tokens ?? 0 });
+      return json.choices?.[0]?.delta?.content ?? '';
+    } catch (err) {
+      if (err instanceof SyntaxError) return '';
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+export const PAGE_MARKER = (page: number) => `<<<PAGE ${page}>>>`;
+
+const MARKER_RE = /<<<\s*PAGE\s+(\d+)\s*>>>/gi;
+
+export interface ParsedPages {
+  pages: Map<number, string>;
+  missing: number[];    // Expected pages with no (or empty) output
+  unexpected: number[]; // Markers the model invented; their text is dropped
+}
+
+/**
+ * Splits delimited model output back into per-page text and checks it against the pages that
+ * were sent. Output with no markers at all is accepted only for single-page requests.
+ */
+export const parsePages = (text: string, expected: number[]): ParsedPages => {
+  const pages = new Map<number, string>();
+  const unexpected: number[] = [];
+  const matches = Array.from(text.matchAll(MARKER_RE));
+
+  if (!matches.length) {
+    if (expected.length === 1 && text.trim()) pages.set(expected[0], text.trim());
+  } else {
+    matches.forEach((m, i) => {
+      const page = parseInt(m[1], 10);
+      const body = text.slice(m.index! + m[0].length, i + 1 < matches.length ? matches[i + 1].index : text.length).trim();
+      if (!expected.includes(page)) { unexpected.push(page); return; }
+      if (body) pages.set(page, pages.has(page) ? `${pages.get(page)}\n${body}` : body);
+    });
+  }
+
+  return { pages, missing: expected.filter(p => !pages.has(p)), unexpected };
+};
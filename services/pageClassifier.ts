@@ -0,0 +1,45 @@
+// Decides whether a PDF text layer is worth sending as text. Scans have none, and many Urdu
+// PDFs typeset in InPage or Nastaliq fonts carry a layer of mojibake or glyph ids in visual
+// order, which the model would faithfully transliterate into nonsense. Roman Urdu sources only
+// need a readable Latin text layer.
+
+import { SourceScript } from '../types';
+import { EVERYDAY_WORDS, foldLetters } from './languages';
+
+const MIN_LETTERS = 15;     // Fewer than this is a scan, a stray page number or a header
+const MIN_SCRIPT_RATIO = 0.6;
+const MIN_WORDS_FOR_CHECK = 12;
+const MIN_FUNCTION_WORD_RATIO = 0.1; // Everyday prose runs well above a third
+
+const ARABIC_LETTER = /[\u0620-\u064A\u066E-\u06D3\u06D5\u06EE-\u06FF\u0750-\u077F\u08A0-\u08FF]/;
+const LATIN_LETTER = /[A-Za-z\u00C0-\u024F]/;
+const LETTER = /\p{L}/u;
+const GARBAGE = /[\uE000-\uF8FF\uFFFD\u0000-\u0008\u000E-\u001F]/; // Private-use glyph ids, replacement chars, control codes
+
+export type TextLayerProblem = 'no text layer' | 'non-Arabic glyphs' | 'non-Latin glyphs' | 'broken ligature encoding';
+
+/** Returns why a page's extracted text cannot be trusted, or null when it reads as the source script. */
+export const classifyTextLayer = (raw: string, script: SourceScript = 'arabic'): TextLayerProblem | null => {
+  const text = foldLetters(raw.normalize('NFKC'));
+  let letters = 0;
+  let arabic = 0;
+  let latin = 0;
+  let garbage = 0;
+  for (const ch of text) {
+    if (GARBAGE.test(ch)) garbage++;
+    else if (ARABIC_LETTER.test(ch)) { arabic++; letters++; }
+    else if (LATIN_LETTER.test(ch)) { latin++; letters++; }
+    else if (LETTER.test(ch)) letters++;
+  }
+  if (letters + garbage < MIN_LETTERS) return 'no text layer';
+  if (script === 'latin') return latin / (letters + garbage) < MIN_SCRIPT_RATIO ? 'non-Latin glyphs' : null;
+  if (arabic / (letters + garbage) < MIN_SCRIPT_RATIO) return 'non-Arabic glyphs';
+
+  // Reversed or misencoded glyph runs still look Arabic; the everyday particles do not survive.
+  const words = text.split(/[\s\u200C\u200F\u061F\u060C\u06D4.,:;!?()"'\u00AB\u00BB]+/).filter(w => ARABIC_LETTER.test(w));
+  if (words.length >= MIN_WORDS_FOR_CHECK) {
+    const hits = words.filter(w => EVERYDAY_WORDS.has(w)).length;
+    if (hits / words.length < MIN_FUNCTION_WORD_RATIO) return 'broken ligature encoding';
+  }
+  return null;
+};
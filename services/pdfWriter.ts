@@ -0,0 +1,123 @@
+// Dependency-free PDF 1.4 writer for Latin-script text. Uses the built-in Helvetica fonts with
+// WinAnsi encoding, so diacritics outside Latin-1 are folded to their base letters.
+
+export interface PdfBlock {
+  text: string;
+  style: 'title' | 'heading' | 'body' | 'meta';
+}
+
+export interface PdfInfo {
+  title: string;
+  subject?: string;
+  keywords?: string;
+  created: Date;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+const STYLES: Record<PdfBlock['style'], { font: 'F1' | 'F2'; size: number; after: number }> = {
+  title: { font: 'F2', size: 20, after: 12 },
+  heading: { font: 'F2', size: 13, after: 6 },
+  body: { font: 'F1', size: 11, after: 9 },
+  meta: { font: 'F1', size: 9, after: 2 }
+};
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126; bold is close enough for wrapping.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Typographic characters that WinAnsi places in the 0x80-0x9F range.
+const WIN_ANSI: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80
+};
+
+// Maps text to WinAnsi bytes (one char per byte), folding or replacing what the font can't show.
+const toWinAnsi = (text: string): string =>
+  Array.from(text.normalize('NFC')).map(ch => {
+    if (WIN_ANSI[ch]) return String.fromCharCode(WIN_ANSI[ch]);
+    const code = ch.charCodeAt(0);
+    if (code >= 32 && code <= 255 && code !== 127) return ch;
+    const folded = ch.normalize('NFD').replace(/\p{M}/gu, '');
+    return folded && folded.charCodeAt(0) <= 255 ? folded : '?';
+  }).join('');
+
+const charWidth = (ch: string) => HELVETICA_WIDTHS[ch.charCodeAt(0) - 32] ?? 556;
+
+const textWidth = (text: string, size: number) =>
+  Array.from(text).reduce((sum, ch) => sum + charWidth(ch), 0) * size / 1000;
+
+const wrap = (text: string, size: number, width: number): string[] => {
+  const lines: string[] = [];
+  for (const para of text.split('\n')) {
+    let line = '';
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, size) > width) { lines.push(line); line = word; }
+      else line = next;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const escape = (text: string) => text.replace(/[\\()]/g, m => `\\${m}`);
+
+const pdfDate = (d: Date) =>
+  `D:${d.getUTCFullYear()}${[d.getUTCMonth() + 1, d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()].map(n => String(n).padStart(2, '0')).join('')}Z`;
+
+export const createPdf = (blocks: PdfBlock[], info: PdfInfo): Blob => {
+  // Lay out every block into page content streams.
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => { pages.push(ops.join('\n')); ops = []; y = PAGE_HEIGHT - MARGIN; };
+
+  for (const block of blocks) {
+    const { font, size, after } = STYLES[block.style];
+    const leading = size * 1.35;
+    if (block.style === 'heading' && y - leading * 3 < MARGIN && ops.length) newPage(); // No orphaned headings
+    for (const line of wrap(toWinAnsi(block.text), size, PAGE_WIDTH - MARGIN * 2)) {
+      if (y - leading < MARGIN) newPage();
+      y -= leading;
+      if (line) ops.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escape(line)}) Tj ET`);
+    }
+    y -= after;
+  }
+  if (ops.length || !pages.length) newPage();
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page + content pair per page.
+  const objects: string[] = [];
+  const kids = pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ');
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< /Title (${escape(toWinAnsi(info.title))})${info.subject ? ` /Subject (${escape(toWinAnsi(info.subject))})` : ''}${info.keywords ? ` /Keywords (${escape(toWinAnsi(info.keywords))})` : ''} /Producer (Urdu2Roman) /CreationDate (${pdfDate(info.created)}) >>`);
+  pages.forEach((content, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Every character is a single byte here, so string lengths are byte offsets.
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, i) => {
+    const at = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return at;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+};
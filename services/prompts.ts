@@ -0,0 +1,74 @@
+import { PAGE_MARKER } from './pageAlignment';
+import { ChunkContext, ConvertOptions, StreamInput } from './transliterationProvider';
+import { DEFAULT_SCHEME, schemeFor } from './schemes';
+import { languageFor, LANGUAGES } from './languages';
+import { GlossaryEntry } from '../types';
+
+const OTHER_LANGUAGES = Object.values(LANGUAGES).filter(l => l.id !== 'urdu').map(l => l.label).join(', ');
+
+// Name, rules and examples for the source language; only the arabic-source schemes have one.
+const sourceProfile = (options: ConvertOptions) => {
+  const scheme = schemeFor(options.scheme);
+  if (scheme.sourceScript !== 'arabic') return { source: scheme.source, rules: [], samples: [] };
+  if (!options.language) {
+    // Scans and short passages can leave the language open; the model is asked to notice it.
+    return { source: scheme.source, rules: [`The text may be in ${OTHER_LANGUAGES} rather than Urdu. If so, transliterate it as that language and write its extra letters by their sound instead of dropping them.`], samples: [] };
+  }
+  const language = languageFor(options.language);
+  const letters = Object.entries(language.letters).map(([ch, { roman, sound }]) => `${ch} = ${sound}, written ${roman}`);
+  return {
+    source: language.name,
+    rules: [...language.rules, ...(letters.length ? [`Letters beyond Urdu: ${letters.join('; ')}.`] : [])],
+    // The language's examples are in informal Roman, so they only suit that scheme.
+    samples: scheme.id === DEFAULT_SCHEME ? language.samples : []
+  };
+};
+
+export const systemInstruction = (options: ConvertOptions = {}): string => {
+  const scheme = schemeFor(options.scheme);
+  const profile = sourceProfile(options);
+  return `
+You are an expert linguist specializing in Urdu and English.
+Your task is to convert ${profile.source} text into ${scheme.target}.
+
+Guidelines:
+1. If the input contains images, perform OCR on each to extract the ${profile.source} text.
+2. ${[...scheme.rules, ...profile.rules].join('\n   ')}
+3. Maintain all original punctuation and structural formatting.
+4. Output ONLY the converted text. No preamble, no "Page X" markers unless they are in the source or <<<PAGE n>>> markers are requested.
+5. Examples:
+${[...scheme.samples, ...profile.samples].map(([source, out]) => `   "${source}" -> "${out}"`).join('\n')}
+`;
+};
+
+const convertDirective = (source: string, target: string) => `Transcribe (if image) and convert all the above ${source} content into ${target}. Keep the order of segments preserved. Return only the conversion.`;
+
+const PAGED_DIRECTIVE = (pages: number[], target: string) => `Each page above is introduced by a marker such as ${PAGE_MARKER(pages[0])}. Transcribe (if image) and convert every page into ${target}. Start each page's output with its marker, copied exactly on its own line, and emit all ${pages.length} page(s) (${pages.join(', ')}) in order. Return only the markers and the conversion.`;
+
+const GLOSSARY_DIRECTIVE = (glossary: GlossaryEntry[]) => `Always use these spellings, exactly as written, wherever the Urdu term occurs:\n${glossary.map(e => `${e.source} => ${e.target}`).join('\n')}`;
+
+const CONTEXT_DIRECTIVE = ({ source, output, names }: ChunkContext) => [
+  'CONTEXT ONLY. The text between <<<CONTEXT>>> markers comes just before the content above and has already been converted. Use it to finish sentences that run across the break and to keep spellings consistent. Do not convert, repeat or include any of it in your output.',
+  source ? `End of the previous source:\n<<<CONTEXT>>>\n${source}\n<<<CONTEXT>>>` : '',
+  output ? `End of its conversion:\n<<<CONTEXT>>>\n${output}\n<<<CONTEXT>>>` : '',
+  names.length ? `Names already used in this text; spell them the same way: ${names.join(', ')}` : ''
+].filter(Boolean).join('\n\n');
+
+export const buildDirective = (options: ConvertOptions = {}): string => {
+  const { target } = schemeFor(options.scheme);
+  const { source } = sourceProfile(options);
+  const directive = options.pages?.length ? PAGED_DIRECTIVE([...new Set(options.pages)], target) : convertDirective(source, target);
+  return [
+    options.context ? CONTEXT_DIRECTIVE(options.context) : '',
+    options.glossary?.length ? GLOSSARY_DIRECTIVE(options.glossary) : '',
+    directive
+  ].filter(Boolean).join('\n\n');
+};
+
+// Interleaves page markers ahead of each input when page-aligned output was requested. Inputs
+// of the same page (the halves of a split spread) share one marker.
+export const labelInputs = (inputs: StreamInput[], options: ConvertOptions = {}): StreamInput[] => {
+  const pages = options.pages;
+  if (!pages?.length) return inputs;
+  return inputs.flatMap((input, i) => i > 0 && pages[i] === pages[i - 1] ? [input] : [PAGE_MARKER(pages[i]), input]);
+};
@@ -0,0 +1,49 @@
+import { ProviderSettings } from '../types';
+import { GeminiService } from './geminiService';
+import { OpenAICompatibleService } from './openAiCompatibleService';
+import { TransliterationProvider } from './transliterationProvider';
+
+const SETTINGS_KEY = 'u2r-provider-settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'gemini',
+  endpoint: 'http://localhost:11434/v1',
+  model: '',
+  apiKey: '',
+  proxyUrl: process.env.GEMINI_PROXY_URL || ''
+};
+
+export const createProvider = (settings: ProviderSettings): TransliterationProvider => {
+  if (settings.kind === 'openai') {
+    if (!settings.endpoint || !settings.model) throw new Error('Endpoint and model are required for an OpenAI-compatible provider.');
+    return new OpenAICompatibleService({ endpoint: settings.endpoint, model: settings.model, apiKey: settings.apiKey });
+  }
+  if (settings.proxyUrl) {
+    if (!settings.apiKey) throw new Error('A proxy token is required to use the Gemini proxy.');
+    return new GeminiService({ model: settings.model || undefined, proxy: { url: settings.proxyUrl, token: settings.apiKey } });
+  }
+  return new GeminiService({ apiKey: settings.apiKey || undefined, model: settings.model || undefined });
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Round-trips a one-word sample so users can verify endpoint, model and key before a long run.
+export const testProvider = async (provider: TransliterationProvider): Promise<string> => {
+  let out = '';
+  for await (const chunk of provider.convertStream(['سلام'])) {
+    out += chunk;
+    if (out.length > 80) break;
+  }
+  return out.trim();
+};
@@ -0,0 +1,89 @@
+import { QualityIssue, SourceLanguage, SourceScript } from '../types';
+import { StreamInput } from './transliterationProvider';
+import { languageFor, leftoverLetters } from './languages';
+
+// Sanity checks on a batch of model output. None of them can prove a conversion right; they
+// catch the failure modes seen in practice: untouched source text, cut-off or invented text, chatty
+// framing around the answer, and generation stuck in a loop.
+
+const MIN_CHARS_FOR_RATIO = 200;   // Short inputs vary too much in length to judge
+const LOOP_SHINGLE_WORDS = 8;
+const MIN_LOOP_REPEATS = 4;
+
+const MARKER = /<<<\s*PAGE\s+\d+\s*>>>/gi;
+const ARABIC_LETTER = /[\u0620-\u064A\u066E-\u06D3\u06D5\u06EE-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g; // Punctuation such as ۔ is left to the scheme
+
+// Per source script: what counts as leftover source text and the usual output/source letter ratio.
+// Roman output runs 1.1-1.6x the Urdu letter count; Urdu drops the short vowels Roman spells out.
+const SCRIPT_CHECKS: Record<SourceScript, { letter: RegExp; name: string; maxShare: number; minRatio: number; maxRatio: number }> = {
+  arabic: { letter: ARABIC_LETTER, name: 'Arabic-script', maxShare: 0.01, minRatio: 0.5, maxRatio: 2.5 }, // A stray ligature is tolerated, a sentence is not
+  latin: { letter: /[A-Za-z]/g, name: 'Latin', maxShare: 0.05, minRatio: 0.3, maxRatio: 1.8 } // Brand names and acronyms often stay in Latin
+};
+const LETTER = /\p{L}/gu;
+
+const PREAMBLE = /^\s*(?:here(?:'s| is| are)\b|sure\b|certainly\b|of course\b|okay\b|below is\b|the following\b|i(?:'ve| have) (?:transliterated|converted)|(?:roman(?: urdu)?|transliteration|converted text|output)\s*:)/i;
+const SIGN_OFF = /(?:let me know\b|hope (?:this|that) helps|feel free to\b|if you (?:need|want|would like)\b)[^\n]*\s*$/i;
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+// Highest number of times any run of `LOOP_SHINGLE_WORDS` words occurs.
+const maxRepeats = (text: string): number => {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const seen = new Map<string, number>();
+  let max = 0;
+  for (let i = 0; i + LOOP_SHINGLE_WORDS <= words.length; i++) {
+    const key = words.slice(i, i + LOOP_SHINGLE_WORDS).join(' ');
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    max = Math.max(max, n);
+  }
+  return max;
+};
+
+/** Problems found in `output` for the batch `inputs`; empty when the output looks sound. */
+export const checkOutput = (inputs: StreamInput[], output: string, script: SourceScript = 'arabic', language?: SourceLanguage): QualityIssue[] => {
+  const checks = SCRIPT_CHECKS[script];
+  const issues: QualityIssue[] = [];
+  const body = output.replace(MARKER, '').trim();
+  const letters = count(body, LETTER);
+
+  const residual = count(body, checks.letter);
+  if (residual && residual / Math.max(1, letters) > checks.maxShare) {
+    issues.push({ kind: 'residual-script', detail: `${residual} ${checks.name} characters left in the output` });
+  } else if (script === 'arabic' && language) {
+    // A language's own letters are the ones models copy through, so even one is reported.
+    const leftover = leftoverLetters(body, language);
+    if (leftover.length) issues.push({ kind: 'residual-script', detail: `${languageFor(language).label} letters left in the output: ${leftover.join(' ')}` });
+  }
+
+  // Scans give no source length to compare against, so only all-text batches are measured.
+  if (inputs.every(input => typeof input === 'string')) {
+    const source = (inputs as string[]).join('\n');
+    const sourceLetters = count(source, LETTER);
+    if (sourceLetters >= MIN_CHARS_FOR_RATIO) {
+      const ratio = letters / sourceLetters;
+      if (ratio < checks.minRatio) issues.push({ kind: 'truncated', detail: `Output is ${Math.round(ratio * 100)}% of the source length` });
+      else if (ratio > checks.maxRatio) issues.push({ kind: 'too-long', detail: `Output is ${ratio.toFixed(1)}x the source length` });
+    }
+  }
+
+  const firstLine = body.split('\n', 1)[0];
+  if (PREAMBLE.test(firstLine)) issues.push({ kind: 'preamble', detail: `Starts with "${firstLine.slice(0, 60)}"` });
+  else if (SIGN_OFF.test(body)) issues.push({ kind: 'preamble', detail: 'Ends with a chat sign-off' });
+
+  // Refrains in poetry repeat in the source too, so only repetition beyond the source's counts.
+  const repeats = maxRepeats(body);
+  const sourceRepeats = maxRepeats(inputs.filter((input): input is string => typeof input === 'string').join('\n'));
+  if (repeats >= MIN_LOOP_REPEATS && repeats > sourceRepeats + 1) {
+    issues.push({ kind: 'repetition', detail: `A passage repeats ${repeats} times` });
+  }
+  return issues;
+};
+
+export const QUALITY_LABELS: Record<QualityIssue['kind'], string> = {
+  'residual-script': 'Source script left',
+  truncated: 'Truncated',
+  'too-long': 'Invented text',
+  preamble: 'Chatty framing',
+  repetition: 'Looping'
+};
@@ -0,0 +1,29 @@
+import { QuickConversion } from '../types';
+
+const HISTORY_KEY = 'u2r-quick-history';
+const MAX_ENTRIES = 50;
+
+export const loadQuickHistory = (): QuickConversion[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQuickHistory = (entries: QuickConversion[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+};
+
+// Newest first. Converting the same text in the same scheme again replaces the older entry.
+export const addQuickConversion = (entries: QuickConversion[], entry: QuickConversion): QuickConversion[] =>
+  [entry, ...entries.filter(e => e.source !== entry.source || e.scheme !== entry.scheme)].slice(0, MAX_ENTRIES);
+
+// Text shared to the app through the Web Share Target (manifest.json), which arrives as query
+// parameters on the start URL. Pages shared from a browser often carry only a title and URL.
+export const readSharedText = (search: string): string | null => {
+  const params = new URLSearchParams(search);
+  const parts = ['title', 'text', 'url'].map(key => params.get(key)?.trim()).filter(Boolean);
+  return parts.length ? [...new Set(parts)].join('\n') : null;
+};
@@ -0,0 +1,160 @@
+import { BatchSource, ResumeMetadata, ReviewItem, ReviewStatus } from '../types';
+import { openDatabase, promisify, txDone } from './idb';
+
+const DB_NAME = 'u2r-resume';
+const DB_VERSION = 2;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+const ORIGINALS = 'originals'; // Kept apart from CHUNKS so restoring a session never loads page images
+const HASH_SAMPLE_BYTES = 1024 * 1024; // Head + tail sample, hashing a 2GB book whole is too slow on mobile
+
+type SessionRecord = Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages'> & { key: string };
+export interface ChunkRecord {
+  key: string;
+  index: number;
+  text: string;
+  page?: number;
+  source?: BatchSource;
+  edited?: string; // Reviewer's correction; wins over `text` everywhere output is read
+  review?: ReviewStatus;
+}
+interface OriginalRecord { key: string; index: number; original?: string; thumbnail?: string; }
+export type ChunkWrite = Omit<ChunkRecord, 'key'> & { original?: string; thumbnail?: string };
+
+/** What a ConversionSession needs to checkpoint a run; IndexedDB in the app, files in the CLI. */
+export interface CheckpointStore {
+  load(key: string): Promise<ResumeMetadata | null>;
+  checkpoint(key: string, meta: Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages'>, chunks?: ChunkWrite[]): Promise<void>;
+  getChunk(key: string, index: number): Promise<ChunkRecord | undefined>;
+  getOriginals(key: string): Promise<Map<number, { original?: string; thumbnail?: string }>>;
+  clear(key: string): Promise<void>;
+}
+
+export class ResumeStore implements CheckpointStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(CHUNKS)) db.createObjectStore(CHUNKS, { keyPath: ['key', 'index'] });
+      if (!db.objectStoreNames.contains(ORIGINALS)) db.createObjectStore(ORIGINALS, { keyPath: ['key', 'index'] });
+    });
+  }
+
+  static async hashFile(file: File): Promise<string> {
+    const head = await file.slice(0, HASH_SAMPLE_BYTES).arrayBuffer();
+    const tail = file.size > HASH_SAMPLE_BYTES
+      ? await file.slice(Math.max(HASH_SAMPLE_BYTES, file.size - HASH_SAMPLE_BYTES)).arrayBuffer()
+      : new ArrayBuffer(0);
+    const buf = new Uint8Array(head.byteLength + tail.byteLength);
+    buf.set(new Uint8Array(head), 0);
+    buf.set(new Uint8Array(tail), head.byteLength);
+    const digest = await crypto.subtle.digest('SHA-256', buf);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  static keyFor(file: File, hash: string): string {
+    return `${file.name}:${file.size}:${hash}`;
+  }
+
+  async load(key: string): Promise<ResumeMetadata | null> {
+    const db = await this.db;
+    const tx = db.transaction([SESSIONS, CHUNKS], 'readonly');
+    const session = await promisify<SessionRecord | undefined>(tx.objectStore(SESSIONS).get(key));
+    if (!session) return null;
+    const chunks = await promisify<ChunkRecord[]>(tx.objectStore(CHUNKS).getAll(this.range(key)));
+    const { key: _key, ...meta } = session;
+    // Slots are dense: a batch that was skipped still owns its (empty) slot.
+    const sorted = chunks.sort((a, b) => a.index - b.index);
+    const size = sorted.length ? sorted[sorted.length - 1].index + 1 : 0;
+    const accumulatedContent: string[] = new Array(size).fill('');
+    const accumulatedPages: (number | null)[] = new Array(size).fill(null);
+    for (const c of sorted) {
+      accumulatedContent[c.index] = c.edited ?? c.text;
+      accumulatedPages[c.index] = c.page ?? null;
+    }
+    return { ...meta, accumulatedContent, accumulatedPages };
+  }
+
+  // Writes a finished batch and the new cursor atomically, so a crash never leaves them out of step.
+  async checkpoint(key: string, meta: Omit<ResumeMetadata, 'accumulatedContent' | 'accumulatedPages'>, chunks: ChunkWrite[] = []): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction([SESSIONS, CHUNKS, ORIGINALS], 'readwrite');
+    tx.objectStore(SESSIONS).put({ ...meta, key, updatedAt: Date.now() });
+    for (const { original, thumbnail, ...chunk } of chunks) {
+      tx.objectStore(CHUNKS).put({ review: 'pending', ...chunk, key });
+      if (original !== undefined || thumbnail !== undefined) {
+        tx.objectStore(ORIGINALS).put({ key, index: chunk.index, original, thumbnail });
+      }
+    }
+    await txDone(tx);
+  }
+
+  async getChunk(key: string, index: number): Promise<ChunkRecord | undefined> {
+    const db = await this.db;
+    return promisify<ChunkRecord | undefined>(db.transaction(CHUNKS, 'readonly').objectStore(CHUNKS).get([key, index]));
+  }
+
+  // One page of the review list, chunks joined with their originals.
+  async getReviewItems(key: string, from: number, count: number): Promise<ReviewItem[]> {
+    const db = await this.db;
+    const tx = db.transaction([CHUNKS, ORIGINALS], 'readonly');
+    const range = IDBKeyRange.bound([key, from], [key, from + count - 1]);
+    const [chunks, originals] = await Promise.all([
+      promisify<ChunkRecord[]>(tx.objectStore(CHUNKS).getAll(range)),
+      promisify<OriginalRecord[]>(tx.objectStore(ORIGINALS).getAll(range))
+    ]);
+    const byIndex = new Map(originals.map(o => [o.index, o]));
+    return chunks.map(({ key: _key, review, ...c }) => ({
+      ...c,
+      review: review ?? 'pending',
+      original: byIndex.get(c.index)?.original,
+      thumbnail: byIndex.get(c.index)?.thumbnail
+    }));
+  }
+
+  // Source text and scans for every chunk, for bilingual exports.
+  async getOriginals(key: string): Promise<Map<number, { original?: string; thumbnail?: string }>> {
+    const db = await this.db;
+    const records = await promisify<OriginalRecord[]>(db.transaction(ORIGINALS, 'readonly').objectStore(ORIGINALS).getAll(this.range(key)));
+    return new Map(records.map(({ index, original, thumbnail }) => [index, { original, thumbnail }]));
+  }
+
+  async updateChunk(key: string, index: number, patch: Partial<Pick<ChunkRecord, 'text' | 'edited' | 'review'>>): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction(CHUNKS, 'readwrite');
+    const store = tx.objectStore(CHUNKS);
+    const current = await promisify<ChunkRecord | undefined>(store.get([key, index]));
+    if (current) store.put({ ...current, ...patch });
+    await txDone(tx);
+  }
+
+  // First chunk at or after `from` with the given review status, or -1.
+  async findNext(key: string, from: number, status: ReviewStatus): Promise<number> {
+    const db = await this.db;
+    const req = db.transaction(CHUNKS, 'readonly').objectStore(CHUNKS).openCursor(IDBKeyRange.bound([key, from], [key, Infinity]));
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve(-1);
+        const chunk = cursor.value as ChunkRecord;
+        if ((chunk.review ?? 'pending') === status) return resolve(chunk.index);
+        cursor.continue();
+      };
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    const db = await this.db;
+    const tx = db.transaction([SESSIONS, CHUNKS, ORIGINALS], 'readwrite');
+    tx.objectStore(SESSIONS).delete(key);
+    tx.objectStore(CHUNKS).delete(this.range(key));
+    tx.objectStore(ORIGINALS).delete(this.range(key));
+    await txDone(tx);
+  }
+
+  private range(key: string): IDBKeyRange {
+    return IDBKeyRange.bound([key, 0], [key, Infinity]);
+  }
+}
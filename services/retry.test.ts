@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { convertWithRetry } from './retry';
+import { ProviderError, TransliterationProvider } from './transliterationProvider';
+
+// Fails every request with a 429 that asks for a minute's wait.
+const rateLimited = (): TransliterationProvider & { calls: number } => ({
+  id: 'stub',
+  label: 'Stub',
+  supportsImages: false,
+  calls: 0,
+  async *convertStream() {
+    this.calls++;
+    throw new ProviderError('HTTP 429: slow down', { status: 429, retryAfterMs: 60_000 });
+  }
+});
+
+describe('convertWithRetry', () => {
+  it('stops waiting out a backoff as soon as the run is paused', async () => {
+    const provider = rateLimited();
+    let paused = false;
+    setTimeout(() => { paused = true; }, 50);
+    const started = Date.now();
+    const result = await convertWithRetry(provider, ['سلام'], {
+      signal: new AbortController().signal,
+      shouldStop: () => paused,
+      onChunk: () => {},
+      onRetry: () => {}
+    });
+    expect(result).toBeNull();
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('stops waiting out a backoff when aborted', async () => {
+    const provider = rateLimited();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    const result = await convertWithRetry(provider, ['سلام'], {
+      signal: controller.signal,
+      shouldStop: () => false,
+      onChunk: () => {},
+      onRetry: () => {}
+    });
+    expect(result).toBeNull();
+    expect(provider.calls).toBe(1);
+  });
+});
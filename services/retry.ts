@@ -0,0 +1,89 @@
+import { ConvertOptions, ProviderError, StreamInput, TransliterationProvider } from './transliterationProvider';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+// Raised once a batch has used up its attempts; the caller skips it instead of aborting the run.
+export class RetriesExhaustedError extends Error {
+  readonly attempts: number;
+
+  constructor(cause: Error, attempts: number) {
+    super(`${cause.message} (gave up after ${attempts} attempts)`);
+    this.name = 'RetriesExhaustedError';
+    this.attempts = attempts;
+  }
+}
+
+interface RetryOptions {
+  signal: AbortSignal;
+  request?: ConvertOptions;
+  shouldStop: () => boolean;
+  onChunk: (text: string) => void;
+  onRetry: (error: Error, attempt: number, delayMs: number) => void;
+  policy?: RetryPolicy;
+}
+
+const STOP_POLL_MS = 250; // How often a backoff wait checks whether the run was paused
+
+// Waits out a backoff, waking early on abort or once `shouldStop` turns true, so a pause during
+// a long Retry-After takes effect at once.
+const sleep = (ms: number, signal: AbortSignal, shouldStop: () => boolean) =>
+  new Promise<void>(resolve => {
+    const wake = () => {
+      clearTimeout(timer);
+      clearInterval(poll);
+      signal.removeEventListener('abort', wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    const poll = setInterval(() => { if (shouldStop()) wake(); }, STOP_POLL_MS);
+    signal.addEventListener('abort', wake, { once: true });
+  });
+
+// Exponential backoff with jitter; a server-provided Retry-After always wins when it is longer.
+export const backoffDelay = (attempt: number, policy: RetryPolicy, retryAfterMs?: number): number => {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = exp / 2 + Math.random() * (exp / 2);
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+};
+
+/**
+ * Streams one batch through the provider, restarting it from scratch on transient failures.
+ * Resolves with the full text, or null if the run was paused/stopped mid-way.
+ */
+export const convertWithRetry = async (
+  provider: TransliterationProvider,
+  inputs: StreamInput[],
+  { signal, request, shouldStop, onChunk, onRetry, policy = DEFAULT_RETRY_POLICY }: RetryOptions
+): Promise<string | null> => {
+  for (let attempt = 1; ; attempt++) {
+    let text = '';
+    try {
+      for await (const chunk of provider.convertStream(inputs, request)) {
+        if (signal.aborted || shouldStop()) return null;
+        onChunk(chunk);
+        text += chunk;
+      }
+      return text;
+    } catch (err: any) {
+      if (signal.aborted || shouldStop()) return null;
+      const error: Error = err instanceof Error ? err : new Error(String(err));
+      if (error instanceof ProviderError && !error.retryable) throw error;
+      if (attempt >= policy.maxAttempts) throw new RetriesExhaustedError(error, attempt);
+
+      const delay = backoffDelay(attempt, policy, error instanceof ProviderError ? error.retryAfterMs : undefined);
+      onRetry(error, attempt, delay);
+      await sleep(delay, signal, shouldStop);
+      if (signal.aborted || shouldStop()) return null;
+    }
+  }
+};
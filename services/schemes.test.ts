@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMES, schemeFor } from './schemes';
+import { transliterate } from './localTransliterator';
+import { OutputScheme } from '../types';
+
+// Raw model output -> what each scheme's post-processing makes of it.
+const POST_PROCESS: Record<OutputScheme, [string, string][]> = {
+  roman: [
+    ['Mein school ja raha hoon', 'Mein school ja raha hoon'],
+    ["Ta'alluq", "Ta'alluq"]
+  ],
+  academic: [
+    ['ʿIshq ek daryā hai.', '‘Ishq ek daryā hai.'],
+    ['Taʾalluq aur `ilm', 'Ta’alluq aur ‘ilm'],
+    ['Maiṉ iskūl jā rahā hūṉ', 'Maiṉ iskūl jā rahā hūṉ']
+  ],
+  chat: [
+    ['‘Ishq ek daryā hai.', 'ishq ek darya hai.'],
+    ["Mein school ja raha hun. Kya tum Lahore aao ge?", 'mein school ja raha hun. kya tum Lahore aao ge?'],
+    ['Ta’alluq\nMein PTV dekh raha hun', 'taalluq\nmein PTV dekh raha hun']
+  ],
+  devanagari: [
+    ['इश्क़ एक दरिया है۔', 'इश्क़ एक दरिया है।'],
+    ['क्या तुम आओगे؟ हाँ، ज़रूर', 'क्या तुम आओगे? हाँ, ज़रूर']
+  ],
+  urdu: [
+    ['میں اسکول جا رہا ہوں.', 'میں اسکول جا رہا ہوں۔'],
+    ['کیا تم آؤ گے ?', 'کیا تم آؤ گے؟'],
+    ['ہاں, ضرور', 'ہاں، ضرور'],
+    ['قیمت 2.5 روپے ہے www.example.com', 'قیمت 2.5 روپے ہے www.example.com']
+  ]
+};
+
+describe('scheme post-processing', () => {
+  for (const scheme of Object.values(SCHEMES)) {
+    describe(scheme.id, () => {
+      it.each(POST_PROCESS[scheme.id])('%j', (raw, expected) => {
+        expect(scheme.postProcess(raw)).toBe(expected);
+      });
+
+      it('leaves its own prompt samples unchanged', () => {
+        for (const [, output] of scheme.samples) expect(scheme.postProcess(output)).toBe(output);
+      });
+    });
+  }
+});
+
+describe('offline output', () => {
+  const SOURCE = 'میں اسکول جا رہا ہوں۔ وہ پاکستان میں ہے۔';
+
+  it('keeps sentence capitals in informal Roman', () => {
+    expect(schemeFor('roman').postProcess(transliterate(SOURCE))).toBe('Mein school ja raha hoon. Woh Pakistan mein hai.');
+  });
+
+  it('is lower case in chat style, except names', () => {
+    expect(schemeFor('chat').postProcess(transliterate(SOURCE))).toBe('mein school ja raha hoon. woh Pakistan mein hai.');
+  });
+});
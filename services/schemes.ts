@@ -0,0 +1,135 @@
+import { OutputScheme, SourceScript } from '../types';
+
+export interface SchemeDefinition {
+  id: OutputScheme;
+  label: string;
+  source: string;   // How prompts name the input, e.g. "Urdu"
+  sourceScript: SourceScript;
+  target: string;   // How prompts name the output, e.g. "Roman English"
+  lang: string;     // BCP 47 tag for exported documents
+  latin: boolean;   // Latin-script output; glossary spellings only apply to these
+  rtl: boolean;     // Output is written right to left
+  offline: boolean; // The rules engine's informal output, post-processed, is acceptable
+  rules: string[];  // Scheme-specific prompt guidelines
+  samples: [string, string][]; // Fixed source -> output pairs, shown to the model as examples
+  postProcess: (text: string) => string; // Deterministic clean-up applied to every chunk
+}
+
+export const DEFAULT_SCHEME: OutputScheme = 'roman';
+
+// Straight or modifier-letter apostrophes the model uses for ‘ain and hamza in academic output.
+const AIN_VARIANTS = /[ʿʻ`]/g;
+const HAMZA_VARIANTS = /[ʾʼ]/g;
+
+const stripMarks = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+
+export const SCHEMES: Record<OutputScheme, SchemeDefinition> = {
+  roman: {
+    id: 'roman',
+    label: 'Roman Urdu (informal)',
+    source: 'Urdu',
+    sourceScript: 'arabic',
+    target: 'Roman English',
+    lang: 'ur-Latn',
+    latin: true,
+    rtl: false,
+    offline: true,
+    rules: ['Provide a direct, phonetic transliteration into Roman English using plain ASCII letters.'],
+    samples: [
+      ['میں اسکول جا رہا ہوں', 'Mein school ja raha hoon'],
+      ['عشق ایک دریا ہے۔', 'Ishq aik darya hai.']
+    ],
+    postProcess: text => text
+  },
+  academic: {
+    id: 'academic',
+    label: 'Academic (ALA-LC / ISO 15919)',
+    source: 'Urdu',
+    sourceScript: 'arabic',
+    target: 'academic ALA-LC romanization',
+    lang: 'ur-Latn',
+    latin: true,
+    rtl: false,
+    offline: false,
+    rules: [
+      'Follow ALA-LC Urdu romanization: long vowels with macrons (ā, ī, ū), retroflexes with underdots (ṭ, ḍ, ṛ), emphatics (ṣ, ẓ, ḥ), ain as ‘ and hamza as ’.',
+      'Mark nasalization with ṉ and aspiration with h (bh, chh, ṭh). Write izafat as -e.',
+      'Do not simplify or drop diacritics.'
+    ],
+    samples: [
+      ['میں اسکول جا رہا ہوں', 'Maiṉ iskūl jā rahā hūṉ'],
+      ['عشق ایک دریا ہے۔', '‘Ishq ek daryā hai.']
+    ],
+    postProcess: text => text.normalize('NFC').replace(AIN_VARIANTS, '‘').replace(HAMZA_VARIANTS, '’')
+  },
+  chat: {
+    id: 'chat',
+    label: 'Simplified chat style',
+    source: 'Urdu',
+    sourceScript: 'arabic',
+    target: 'casual Roman Urdu as typed in chat messages',
+    lang: 'ur-Latn',
+    latin: true,
+    rtl: false,
+    offline: true,
+    rules: [
+      'Use the short spellings people type on phones (mein, hai, nahi, kya, bhi) in lower case, except names.',
+      'No diacritics or apostrophes for ain or hamza.'
+    ],
+    samples: [
+      ['میں اسکول جا رہا ہوں', 'mein school ja raha hun'],
+      ['عشق ایک دریا ہے۔', 'ishq ek darya hai.']
+    ],
+    // Sentence starts are lowered as well: the offline engine capitalises them. Names elsewhere keep theirs.
+    postProcess: text => stripMarks(text).replace(/['‘’ʿʾ]/g, '')
+      .replace(/(^|[.?!]\s+|\n\s*)([A-Z])(?=[a-z])/g, (_m, lead: string, ch: string) => lead + ch.toLowerCase())
+  },
+  devanagari: {
+    id: 'devanagari',
+    label: 'Devanagari (Hindi script)',
+    source: 'Urdu',
+    sourceScript: 'arabic',
+    target: 'Devanagari script (Hindi)',
+    lang: 'ur-Deva',
+    latin: false,
+    rtl: false,
+    offline: false,
+    rules: [
+      'Write the same words in Devanagari as a Hindi reader would spell them; keep Perso-Arabic sounds with nukta (क़, ख़, ग़, ज़, फ़).',
+      'Use । for the Urdu full stop ۔ and keep other punctuation.'
+    ],
+    samples: [
+      ['میں اسکول جا رہا ہوں', 'मैं स्कूल जा रहा हूँ'],
+      ['عشق ایک دریا ہے۔', 'इश्क़ एक दरिया है।']
+    ],
+    postProcess: text => text.normalize('NFC').replace(/۔/g, '।').replace(/،/g, ',').replace(/؟/g, '?')
+  },
+  urdu: {
+    id: 'urdu',
+    label: 'Urdu script (Nastaliq)',
+    source: 'Roman Urdu',
+    sourceScript: 'latin',
+    target: 'Urdu in its own Perso-Arabic (Nastaliq) script',
+    lang: 'ur',
+    latin: false,
+    rtl: true,
+    offline: false,
+    rules: [
+      'Spell every word the way it is written in standard Urdu, whatever the Roman spelling. Chat spellings vary: "hai", "hay" and "he" are all ہے unless the sentence is English; "mein", "main" and "me" are میں; "k", "ke" and "kay" are کے.',
+      'Decide between words that share a Roman spelling from the sentence: "kia/kya" is کیا, "ki" is کی or کہ, "pe/par" is پر, "sir" is سر or the English title.',
+      'Write English words used in the sentence in Urdu script as Urdu newspapers do (اسکول، موبائل), and keep names, numbers and URLs as they are.',
+      'Use Urdu punctuation: ۔ for a full stop, ، for a comma and ؟ for a question mark.'
+    ],
+    samples: [
+      ['Mein school ja raha hoon', 'میں اسکول جا رہا ہوں'],
+      ['ishq ek darya he.', 'عشق ایک دریا ہے۔']
+    ],
+    // Latin punctuation that follows an Urdu letter becomes its Urdu form; decimals and URLs keep theirs.
+    postProcess: text => text.normalize('NFC')
+      .replace(/([\u0600-\u06FF])\s*\.(?=\s|$)/g, '$1۔')
+      .replace(/([\u0600-\u06FF])\s*,/g, '$1،')
+      .replace(/([\u0600-\u06FF])\s*\?/g, '$1؟')
+  }
+};
+
+export const schemeFor = (id?: OutputScheme): SchemeDefinition => SCHEMES[id ?? DEFAULT_SCHEME] ?? SCHEMES[DEFAULT_SCHEME];
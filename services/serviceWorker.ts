@@ -0,0 +1,34 @@
+// Registers sw.js and reports when a newer version of the app has been downloaded. The new
+// worker waits until `apply` is called, so a conversion in progress is never reloaded from
+// under the user.
+
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  const container = navigator.serviceWorker;
+  // The first install also changes the controller (sw.js claims open pages); only an accepted
+  // update reloads.
+  let accepted = false;
+  let reloading = false;
+  container.addEventListener('controllerchange', () => {
+    if (!accepted || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  container.register('./sw.js').then(registration => {
+    const offer = (worker: ServiceWorker) => onUpdate(() => {
+      accepted = true;
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+    // Only an update waits; the first install has no page to replace.
+    if (registration.waiting && container.controller) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && container.controller) offer(worker);
+      });
+    });
+    // An installed app can stay open for days; look for a new deploy whenever it comes back online.
+    window.addEventListener('online', () => registration.update().catch(() => {}));
+  }).catch(err => console.warn('Service worker registration failed:', err));
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { chunkTextFile, findBreak, TextChunk } from './textChunker';
+
+const encoder = new TextEncoder();
+
+const collect = async (text: string, targetBytes: number, startByte?: number) => {
+  const chunks: TextChunk[] = [];
+  for await (const chunk of chunkTextFile(new Blob([text]), { targetBytes, startByte })) chunks.push(chunk);
+  return chunks;
+};
+
+// Each chunk's bytes are exactly its text, so no code point was cut in two.
+const expectWholeCharacters = (source: string, chunks: TextChunk[]) => {
+  const bytes = encoder.encode(source);
+  for (const chunk of chunks) {
+    expect(chunk.text).not.toContain('�');
+    expect(encoder.encode(chunk.text)).toEqual(bytes.subarray(chunk.startByte, chunk.endByte));
+  }
+};
+
+// No spaces or terminators, so every cut falls back to the code point boundary.
+const TWO_BYTE = 'اردوزبانکیکتاب'.repeat(20); // Arabic letters: 2 bytes each
+const THREE_BYTE = 'हिन्दीउर्दू'.repeat(20); // Devanagari: 3 bytes each
+
+describe('findBreak', () => {
+  it('backs off to the lead byte of a 2-byte character', () => {
+    const buf = encoder.encode(TWO_BYTE);
+    expect(findBreak(buf, 9)).toBe(8);
+    expect(findBreak(buf, 10)).toBe(10);
+  });
+
+  it('backs off to the lead byte of a 3-byte character', () => {
+    const buf = encoder.encode(THREE_BYTE);
+    expect(findBreak(buf, 10)).toBe(9);
+    expect(findBreak(buf, 11)).toBe(9);
+    expect(findBreak(buf, 12)).toBe(12);
+  });
+
+  it('prefers a paragraph break, then a sentence end, then a space', () => {
+    const buf = encoder.encode('ایک دو۔ تین\n\nچار پانچ');
+    expect(findBreak(buf, buf.length - 1)).toBe(encoder.encode('ایک دو۔ تین\n\n').length);
+    const sentence = encoder.encode('ایک دو تین۔ چار پانچ');
+    expect(findBreak(sentence, sentence.length - 1)).toBe(encoder.encode('ایک دو تین۔').length);
+  });
+});
+
+describe('chunkTextFile', () => {
+  it.each([
+    ['2-byte', TWO_BYTE],
+    ['3-byte', THREE_BYTE],
+    ['mixed', 'ab' + TWO_BYTE.slice(0, 7) + THREE_BYTE.slice(0, 5) + '😀'.repeat(6)]
+  ])('never splits a %s character for any chunk size', async (_label, text) => {
+    for (let target = 4; target <= 13; target++) {
+      const chunks = await collect(text, target);
+      expectWholeCharacters(text, chunks);
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      chunks.forEach((chunk, i) => expect(chunk.startByte).toBe(i ? chunks[i - 1].endByte : 0));
+    }
+  });
+
+  it('resumes from an offset in the middle of a 2-byte character', async () => {
+    const chunks = await collect(TWO_BYTE, 16, 3);
+    expect(chunks[0].startByte).toBe(4);
+    expectWholeCharacters(TWO_BYTE, chunks);
+    expect(chunks.map(c => c.text).join('')).toBe(TWO_BYTE.slice(2));
+  });
+
+  it('resumes from an offset in the middle of a 3-byte character', async () => {
+    for (const offset of [1, 2]) {
+      const chunks = await collect(THREE_BYTE, 16, offset);
+      expect(chunks[0].startByte).toBe(3);
+      expectWholeCharacters(THREE_BYTE, chunks);
+      expect(chunks.map(c => c.text).join('')).toBe(THREE_BYTE.slice(1));
+    }
+  });
+});
@@ -0,0 +1,85 @@
+export interface TextChunk {
+  text: string;
+  startByte: number; // Inclusive file offset, always on a UTF-8 code point boundary
+  endByte: number;   // Exclusive; feed back as startByte to resume
+}
+
+// UTF-8 byte sequences that end a sentence: ۔ (U+06D4), ؟ (U+061F), !, ., ?
+const SENTENCE_TERMINATORS: number[][] = [[0xDB, 0x94], [0xD8, 0x9F], [0x21], [0x2E], [0x3F]];
+const LF = 0x0A;
+const CR = 0x0D;
+const SPACE = 0x20;
+
+const isContinuationByte = (b: number) => (b & 0xC0) === 0x80;
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+};
+
+// Picks the byte index to cut at, preferring paragraph > sentence > word > code point boundaries.
+// Every candidate sits right after an ASCII byte or a complete multi-byte terminator, so a
+// multi-byte character is never split.
+export const findBreak = (buf: Uint8Array, limit: number): number => {
+  const floor = Math.floor(limit / 2);
+
+  for (let i = limit - 1; i > floor; i--) {
+    if (buf[i] === LF && (buf[i - 1] === LF || (buf[i - 1] === CR && buf[i - 2] === LF))) return i + 1;
+  }
+  for (let i = limit - 1; i >= floor; i--) {
+    for (const seq of SENTENCE_TERMINATORS) {
+      const s = i - seq.length + 1;
+      if (s >= 0 && seq.every((b, k) => buf[s + k] === b)) return i + 1;
+    }
+  }
+  for (let i = limit - 1; i >= floor; i--) {
+    if (buf[i] === SPACE || buf[i] === LF) return i + 1;
+  }
+  let j = limit;
+  while (j > 0 && isContinuationByte(buf[j])) j--;
+  return j > 0 ? j : limit;
+};
+
+/**
+ * Streams a (potentially multi-GB) UTF-8 text file as chunks of at most `targetBytes`,
+ * cut on Urdu sentence terminators or paragraph breaks where possible.
+ */
+export async function* chunkTextFile(
+  file: Blob,
+  options: { startByte?: number; targetBytes: number }
+): AsyncGenerator<TextChunk> {
+  const { targetBytes } = options;
+  const decoder = new TextDecoder('utf-8');
+  let pos = options.startByte ?? 0;
+  let readPos = pos;
+  let buf: Uint8Array = new Uint8Array(0);
+  let aligned = pos === 0;
+
+  while (true) {
+    while (buf.length <= targetBytes && readPos < file.size) {
+      const next = new Uint8Array(await file.slice(readPos, readPos + targetBytes).arrayBuffer());
+      readPos += next.length;
+      buf = concat(buf, next);
+    }
+    if (!aligned) {
+      // A resume offset from an older checkpoint may land mid-character; skip to the next lead byte.
+      let skip = 0;
+      while (skip < buf.length && isContinuationByte(buf[skip])) skip++;
+      buf = buf.slice(skip);
+      pos += skip;
+      aligned = true;
+    }
+    if (!buf.length) break;
+
+    const eof = readPos >= file.size;
+    const cut = eof && buf.length <= targetBytes ? buf.length : findBreak(buf, Math.min(targetBytes, buf.length));
+    const last = eof && cut === buf.length;
+    const text = decoder.decode(buf.subarray(0, cut), { stream: !last });
+
+    yield { text, startByte: pos, endByte: pos + cut };
+    pos += cut;
+    buf = buf.slice(cut);
+  }
+}
@@ -0,0 +1,217 @@
+import { readZip } from './zip';
+
+// Text extraction for document formats. Each extractor returns chapters of paragraphs in reading
+// order; the input adapter groups them into page-sized sections.
+export type Chapters = string[][];
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const BLOCK_SELECTOR = 'p,h1,h2,h3,h4,h5,h6,li,blockquote,pre,td,th,dt,dd,figcaption,div';
+
+const utf8 = new TextDecoder('utf-8');
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length) {
+    // Plenty of EPUB chapters are sloppy XHTML; the HTML parser recovers where XML gives up.
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+};
+
+const collapse = (text: string) => text.replace(/[ \t\r\n\f]+/g, ' ').trim();
+
+// Leaf block elements in document order; containers are skipped so text is never counted twice.
+const htmlParagraphs = (root: Document): string[] => {
+  root.querySelectorAll('script,style,noscript,template').forEach(el => el.remove());
+  const body = root.body ?? root.documentElement;
+  const blocks = Array.from(body.querySelectorAll(BLOCK_SELECTOR)).filter(el => !el.querySelector(BLOCK_SELECTOR));
+  const paragraphs = blocks.map(el => el.tagName.toLowerCase() === 'pre' ? (el.textContent ?? '').trim() : collapse(el.textContent ?? ''));
+  if (paragraphs.some(Boolean)) return paragraphs.filter(Boolean);
+  return (body.textContent ?? '').split(/\n\s*\n/).map(collapse).filter(Boolean);
+};
+
+// --- DOCX -------------------------------------------------------------------------------------
+
+// Body paragraphs from word/document.xml; a Title or Heading 1 paragraph starts a new chapter.
+export const extractDocx = async (buffer: ArrayBuffer): Promise<Chapters> => {
+  const zip = readZip(buffer);
+  const entry = zip.get('word/document.xml');
+  if (!entry) throw new Error('Not a Word document (word/document.xml missing).');
+  const doc = parseXml(utf8.decode(await entry()));
+  const chapters: Chapters = [[]];
+  for (const p of Array.from(doc.getElementsByTagNameNS(W_NS, 'p'))) {
+    let text = '';
+    const walk = (node: Element) => {
+      for (const child of Array.from(node.children)) {
+        if (child.namespaceURI !== W_NS) continue;
+        if (child.localName === 't') text += child.textContent ?? '';
+        else if (child.localName === 'tab') text += '\t';
+        else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+        else if (child.localName !== 'p' && child.localName !== 'pPr' && child.localName !== 'rPr') walk(child);
+      }
+    };
+    walk(p);
+    if (!text.trim()) continue;
+    const style = p.getElementsByTagNameNS(W_NS, 'pStyle')[0]?.getAttributeNS(W_NS, 'val') ?? '';
+    if (/^(Title|Heading1)$/i.test(style) && chapters[chapters.length - 1].length) chapters.push([]);
+    chapters[chapters.length - 1].push(text.trim());
+  }
+  return chapters.filter(c => c.length);
+};
+
+// --- EPUB -------------------------------------------------------------------------------------
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base.includes('/') ? base.slice(0, base.lastIndexOf('/') + 1) : '').concat(decodeURIComponent(href.split('#')[0])).split('/');
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === '..') out.pop();
+    else if (part && part !== '.') out.push(part);
+  }
+  return out.join('/');
+};
+
+// One chapter per spine document, in reading order.
+export const extractEpub = async (buffer: ArrayBuffer): Promise<Chapters> => {
+  const zip = readZip(buffer);
+  const container = zip.get('META-INF/container.xml');
+  if (!container) throw new Error('Not an EPUB (META-INF/container.xml missing).');
+  const opfPath = parseXml(utf8.decode(await container())).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfEntry = opfPath ? zip.get(opfPath) : undefined;
+  if (!opfPath || !opfEntry) throw new Error('EPUB package document not found.');
+  const opf = parseXml(utf8.decode(await opfEntry()));
+
+  const manifest = new Map<string, string>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    manifest.set(item.getAttribute('id') ?? '', item.getAttribute('href') ?? '');
+  }
+  const chapters: Chapters = [];
+  for (const ref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const href = manifest.get(ref.getAttribute('idref') ?? '');
+    const entry = href ? zip.get(resolvePath(opfPath, href)) : undefined;
+    if (!entry) continue;
+    const paragraphs = htmlParagraphs(parseXml(utf8.decode(await entry()), 'application/xhtml+xml'));
+    if (paragraphs.length) chapters.push(paragraphs);
+  }
+  return chapters;
+};
+
+// --- HTML -------------------------------------------------------------------------------------
+
+// Saved web pages: honours a <meta charset> (or http-equiv) declaration, defaulting to UTF-8.
+export const extractHtml = (buffer: ArrayBuffer): Chapters => {
+  const head = new TextDecoder('latin1').decode(buffer.slice(0, 2048));
+  const charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ?? 'utf-8';
+  let text: string;
+  try {
+    text = new TextDecoder(charset).decode(buffer);
+  } catch {
+    text = utf8.decode(buffer);
+  }
+  const paragraphs = htmlParagraphs(new DOMParser().parseFromString(text, 'text/html'));
+  return paragraphs.length ? [paragraphs] : [];
+};
+
+// --- RTF --------------------------------------------------------------------------------------
+
+// \fcharset values mapped to Windows code pages; InPage exports use 178 (Arabic).
+const CHARSET_CODEPAGES: Record<number, number> = {
+  0: 1252, 161: 1253, 162: 1254, 177: 1255, 178: 1256, 186: 1257, 204: 1251, 238: 1250, 222: 874
+};
+
+const SKIPPED_DESTINATIONS = new Set([
+  'colortbl', 'stylesheet', 'info', 'pict', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'footnote', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'xmlnstbl',
+  'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'object', 'fldinst', 'generator', 'pgdsctbl'
+]);
+
+interface RtfGroup { skip: boolean; fontTable: boolean; uc: number; codepage: number; }
+
+const decoderFor = (codepage: number): TextDecoder => {
+  try {
+    return new TextDecoder(`windows-${codepage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+};
+
+/**
+ * Plain-text reader for RTF: follows groups, skips non-text destinations, and decodes \'hh bytes
+ * in the code page of the active font (falling back to \ansicpg) and \uN escapes.
+ */
+export const extractRtf = (buffer: ArrayBuffer): Chapters => {
+  const rtf = new TextDecoder('latin1').decode(buffer);
+  if (!rtf.startsWith('{\\rtf')) throw new Error('Not an RTF document.');
+
+  const fontCodepages = new Map<number, number>();
+  let defaultCodepage = 1252;
+  let state: RtfGroup = { skip: false, fontTable: false, uc: 1, codepage: defaultCodepage };
+  const stack: RtfGroup[] = [];
+  let out = '';
+  let bytes: number[] = [];
+  let skipChars = 0;  // Fallback characters still to drop after a \uN
+  let fontNumber = -1; // Font being defined inside \fonttbl
+
+  const flushBytes = () => {
+    if (bytes.length) out += decoderFor(state.codepage).decode(new Uint8Array(bytes));
+    bytes = [];
+  };
+  const emit = (text: string) => {
+    if (skipChars > 0) { skipChars--; return; }
+    if (state.skip || state.fontTable) return;
+    flushBytes();
+    out += text;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const ch = rtf[i];
+    if (ch === '{') { flushBytes(); stack.push(state); state = { ...state }; continue; }
+    if (ch === '}') { flushBytes(); state = stack.pop() ?? state; skipChars = 0; continue; }
+    if (ch === '\r' || ch === '\n') continue;
+    if (ch !== '\\') { emit(ch); continue; }
+
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const byte = parseInt(rtf.substr(i + 2, 2), 16);
+      i += 3;
+      if (skipChars > 0) { skipChars--; continue; }
+      if (!state.skip && !state.fontTable && !isNaN(byte)) bytes.push(byte);
+      continue;
+    }
+    if (next === '*') { state.skip = true; i++; continue; }
+    if (next === '\\' || next === '{' || next === '}') { emit(next); i++; continue; }
+    if (next === '~') { emit(' '); i++; continue; }
+    if (next === '\r' || next === '\n') { emit('\n'); i++; continue; }
+    if (!/[a-z]/i.test(next ?? '')) { i++; continue; } // \- \_ \: and friends carry no text
+
+    const m = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40))!;
+    i += m[0].length;
+    const word = m[1];
+    const param = m[2] !== undefined ? parseInt(m[2], 10) : undefined;
+    switch (word) {
+      case 'par': case 'line': case 'sect': case 'page': emit('\n'); break;
+      case 'tab': emit('\t'); break;
+      case 'u':
+        if (param !== undefined) { emit(String.fromCharCode(param < 0 ? param + 65536 : param)); skipChars = state.uc; }
+        break;
+      case 'uc': state.uc = param ?? 1; break;
+      case 'ansicpg': defaultCodepage = param ?? 1252; state.codepage = defaultCodepage; break;
+      case 'fonttbl': state.fontTable = true; break;
+      case 'f':
+        if (state.fontTable) fontNumber = param ?? -1;
+        else { flushBytes(); state.codepage = fontCodepages.get(param ?? -1) ?? defaultCodepage; }
+        break;
+      case 'fcharset':
+        if (state.fontTable && fontNumber >= 0 && param !== undefined && CHARSET_CODEPAGES[param]) fontCodepages.set(fontNumber, CHARSET_CODEPAGES[param]);
+        break;
+      case 'cpg':
+        if (state.fontTable && fontNumber >= 0 && param) fontCodepages.set(fontNumber, param);
+        break;
+      default:
+        if (SKIPPED_DESTINATIONS.has(word)) state.skip = true;
+    }
+  }
+  flushBytes();
+  const paragraphs = out.split('\n').map(p => p.trim()).filter(Boolean);
+  return paragraphs.length ? [paragraphs] : [];
+};
@@ -0,0 +1,204 @@
+// Baseline multi-page TIFF reader for scanned books: strips or tiles, uncompressed, PackBits,
+// LZW or Deflate, in bilevel, grayscale, palette or RGB(A). CCITT fax and JPEG-in-TIFF are not
+// decoded here; the adapter falls back to the browser's own decoder for those.
+
+export interface TiffPage {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray;
+}
+
+export class UnsupportedTiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedTiffError';
+  }
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type Ifd = Map<number, number[]>;
+
+const readIfd = (view: DataView, offset: number, le: boolean): { tags: Ifd; next: number } => {
+  const tags: Ifd = new Map();
+  const count = view.getUint16(offset, le);
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    const tag = view.getUint16(at, le);
+    const type = view.getUint16(at + 2, le);
+    const n = view.getUint32(at + 4, le);
+    const size = TYPE_SIZES[type] ?? 1;
+    const base = size * n > 4 ? view.getUint32(at + 8, le) : at + 8;
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = base + k * size;
+      if (type === 3 || type === 8) values.push(view.getUint16(p, le));
+      else if (type === 4 || type === 9) values.push(view.getUint32(p, le));
+      else if (type === 5) values.push(view.getUint32(p, le) / (view.getUint32(p + 4, le) || 1));
+      else values.push(view.getUint8(p));
+    }
+    tags.set(tag, values);
+  }
+  return { tags, next: view.getUint32(offset + 2 + count * 12, le) };
+};
+
+const unpackBits = (src: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < src.length && o < expected) {
+    const n = (src[i++] << 24) >> 24;
+    if (n >= 0) { out.set(src.subarray(i, i + n + 1), o); i += n + 1; o += n + 1; }
+    else if (n !== -128) { out.fill(src[i++], o, o + 1 - n); o += 1 - n; }
+  }
+  return out;
+};
+
+// TIFF LZW: MSB-first codes of 9-12 bits with the "early change" width bump.
+const lzwDecode = (src: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  const dict: Uint8Array[] = [];
+  const reset = () => { dict.length = 258; for (let i = 0; i < 256; i++) dict[i] = new Uint8Array([i]); };
+  reset();
+  let bitPos = 0;
+  let width = 9;
+  let o = 0;
+  let prev: Uint8Array | null = null;
+  const readCode = () => {
+    let code = 0;
+    for (let k = 0; k < width; k++) {
+      const byte = src[(bitPos + k) >> 3] ?? 0;
+      code = (code << 1) | ((byte >> (7 - ((bitPos + k) & 7))) & 1);
+    }
+    bitPos += width;
+    return code;
+  };
+  while (o < expected && bitPos + width <= src.length * 8) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) { reset(); width = 9; prev = null; continue; }
+    let entry = dict[code];
+    if (!entry) {
+      if (!prev) break;
+      entry = new Uint8Array(prev.length + 1);
+      entry.set(prev);
+      entry[prev.length] = prev[0];
+    }
+    out.set(entry.subarray(0, expected - o), o);
+    o += entry.length;
+    if (prev) {
+      const added = new Uint8Array(prev.length + 1);
+      added.set(prev);
+      added[prev.length] = entry[0];
+      dict.push(added);
+    }
+    prev = entry;
+    if (dict.length + 1 >= 1 << width && width < 12) width++;
+  }
+  return out;
+};
+
+const inflate = async (src: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([src]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export class TiffDocument {
+  readonly pageCount: number;
+  private view: DataView;
+  private bytes: Uint8Array;
+  private le: boolean;
+  private ifds: Ifd[] = [];
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+    const order = this.view.getUint16(0, false);
+    if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file.');
+    this.le = order === 0x4949;
+    if (this.view.getUint16(2, this.le) !== 42) throw new UnsupportedTiffError('BigTIFF files are not supported.');
+    const seen = new Set<number>();
+    for (let offset = this.view.getUint32(4, this.le); offset && !seen.has(offset) && offset < buffer.byteLength; ) {
+      seen.add(offset);
+      const { tags, next } = readIfd(this.view, offset, this.le);
+      this.ifds.push(tags);
+      offset = next;
+    }
+    this.pageCount = this.ifds.length;
+  }
+
+  compression(page: number): number {
+    return this.ifds[page - 1]?.get(259)?.[0] ?? 1;
+  }
+
+  async decodePage(page: number): Promise<TiffPage> {
+    const tags = this.ifds[page - 1];
+    if (!tags) throw new Error(`TIFF page ${page} does not exist.`);
+    const tag = (id: number, fallback = 0) => tags.get(id)?.[0] ?? fallback;
+    const width = tag(256);
+    const height = tag(257);
+    const bits = tag(258, 1);
+    const compression = tag(259, 1);
+    const photometric = tag(262, 1);
+    const samples = tag(277, 1);
+    const predictor = tag(317, 1);
+    if (tag(284, 1) !== 1) throw new UnsupportedTiffError('Planar (separate) TIFF layouts are not supported.');
+    if (![1, 4, 8, 16].includes(bits)) throw new UnsupportedTiffError(`${bits}-bit TIFF samples are not supported.`);
+    if (![1, 5, 8, 32773, 32946].includes(compression)) throw new UnsupportedTiffError(`TIFF compression ${compression} is not supported.`);
+
+    const tiled = tags.has(324);
+    const blockW = tiled ? tag(322) : width;
+    const blockH = tiled ? tag(323) : Math.min(tag(278, height), height);
+    const offsets = tags.get(tiled ? 324 : 273) ?? [];
+    const counts = tags.get(tiled ? 325 : 279) ?? [];
+    const rowBytes = Math.ceil((blockW * samples * bits) / 8);
+    const across = Math.ceil(width / blockW);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const colorMap = tags.get(320);
+
+    for (let b = 0; b < offsets.length; b++) {
+      const raw = this.bytes.subarray(offsets[b], offsets[b] + (counts[b] ?? 0));
+      const expected = rowBytes * blockH;
+      let data = compression === 1 ? raw
+        : compression === 32773 ? unpackBits(raw, expected)
+        : compression === 5 ? lzwDecode(raw, expected)
+        : await inflate(raw);
+      if (predictor === 2 && bits === 8) {
+        data = new Uint8Array(data);
+        for (let y = 0; y < blockH; y++) {
+          for (let x = samples; x < blockW * samples; x++) data[y * rowBytes + x] = (data[y * rowBytes + x] + data[y * rowBytes + x - samples]) & 0xff;
+        }
+      }
+
+      const x0 = tiled ? (b % across) * blockW : 0;
+      const y0 = tiled ? Math.floor(b / across) * blockH : b * blockH;
+      for (let y = 0; y < blockH && y0 + y < height; y++) {
+        for (let x = 0; x < blockW && x0 + x < width; x++) {
+          const sample = (s: number): number => {
+            const index = (x * samples + s);
+            if (bits === 8) return data[y * rowBytes + index];
+            if (bits === 16) return data[y * rowBytes + index * 2 + (this.le ? 1 : 0)];
+            const bit = index * bits;
+            const v = (data[y * rowBytes + (bit >> 3)] >> (8 - bits - (bit & 7))) & ((1 << bits) - 1);
+            return photometric === 3 ? v : Math.round((v * 255) / ((1 << bits) - 1));
+          };
+          const o = ((y0 + y) * width + x0 + x) * 4;
+          if (photometric === 2) {
+            rgba[o] = sample(0); rgba[o + 1] = sample(1); rgba[o + 2] = sample(2);
+            rgba[o + 3] = samples > 3 ? sample(3) : 255;
+          } else if (photometric === 3 && colorMap) {
+            const v = sample(0);
+            const n = 1 << bits;
+            rgba[o] = colorMap[v] >> 8; rgba[o + 1] = colorMap[n + v] >> 8; rgba[o + 2] = colorMap[2 * n + v] >> 8;
+            rgba[o + 3] = 255;
+          } else {
+            const v = photometric === 0 ? 255 - sample(0) : sample(0);
+            rgba[o] = rgba[o + 1] = rgba[o + 2] = v;
+            rgba[o + 3] = 255;
+          }
+        }
+      }
+    }
+    return { width, height, rgba };
+  }
+}
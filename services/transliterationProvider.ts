@@ -0,0 +1,68 @@
+import { GlossaryEntry, OutputScheme, SourceLanguage, TokenUsage } from '../types';
+
+export type StreamInput = string | { data: string; mimeType: string };
+
+// The end of the previous chunk and the names used so far; sent for reference, never converted.
+export interface ChunkContext {
+  source: string;
+  output: string;
+  names: string[];
+}
+
+export interface ConvertOptions {
+  pages?: number[]; // Source page of each input, in order; requests <<<PAGE n>>>-delimited output
+  glossary?: GlossaryEntry[]; // Required spellings for terms in this batch
+  scheme?: OutputScheme;      // Output standard; defaults to informal Roman Urdu
+  language?: SourceLanguage;  // Perso-Arabic source language; unset while it is still unknown
+  context?: ChunkContext;     // Carried over from the previous chunk when context carry-over is on
+  onUsage?: (usage: TokenUsage) => void; // Token counts for the request, when the provider reports them
+}
+
+export interface TransliterationProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly supportsImages: boolean;
+  readonly model?: string; // Reported in export metadata
+  convertStream(inputs: StreamInput[], options?: ConvertOptions): AsyncGenerator<string>;
+}
+
+// Thrown by providers so the retry layer can tell transient failures (429, 5xx, dropped
+// streams) from ones that will never succeed (bad key, unknown model).
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? isRetryableStatus(options.status);
+  }
+}
+
+export const isRetryableStatus = (status?: number): boolean =>
+  status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+
+// Gemini answers a missing or invalid key, and a region or billing the API is not enabled for,
+// with a 400 rather than a 401/403; only the error body tells them apart from a bad request.
+const ACCOUNT_ERROR = /API_KEY_INVALID|API key not valid|API key expired|FAILED_PRECONDITION/i;
+
+// Errors no other batch will get past either: a rejected key, an unknown model, or an engine
+// that cannot handle this input or scheme at all. Any other failure only costs its own batch.
+export const isFatalError = (error: Error): boolean =>
+  error instanceof ProviderError &&
+  (error.status === 401 || error.status === 403 || error.status === 404 ||
+    (error.status === 400 && ACCOUNT_ERROR.test(error.message)) ||
+    (error.status === undefined && !error.retryable));
+
+// Accepts a Retry-After header value (seconds or HTTP date) or a Gemini "retryDelay": "30s" hint.
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const delay = value.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  if (delay) return Math.ceil(parseFloat(delay[1]) * 1000);
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) return Math.ceil(parseFloat(value) * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,105 @@
+import { TokenUsage } from '../types';
+
+// Token pricing and pre-run estimates. Prices are list prices in USD per million tokens and only
+// steer the budget cap; the provider's invoice is authoritative.
+
+const BUDGET_KEY = 'u2r-budget';
+
+export interface ModelPricing { input: number; output: number; }
+
+// First match wins, so more specific model names come before their families.
+const PRICES: [RegExp, ModelPricing][] = [
+  [/gemini-[\d.]+-flash-lite/, { input: 0.10, output: 0.40 }],
+  [/gemini-3[\w.-]*-flash/, { input: 0.50, output: 3.00 }],
+  [/gemini-[\d.]+-flash/, { input: 0.30, output: 2.50 }],
+  [/gemini-3[\w.-]*-pro/, { input: 2.00, output: 12.00 }],
+  [/gemini-[\d.]+-pro/, { input: 1.25, output: 10.00 }],
+  [/gpt-4o-mini/, { input: 0.15, output: 0.60 }],
+  [/gpt-4o/, { input: 2.50, output: 10.00 }],
+  [/gpt-4\.1-mini/, { input: 0.40, output: 1.60 }],
+  [/gpt-4\.1/, { input: 2.00, output: 8.00 }]
+];
+
+const PROMPT_TOKENS = 600;          // System instruction and scheme rules sent with every request
+const URDU_CHARS_PER_TOKEN = 2.5;
+const ROMAN_CHARS_PER_URDU_CHAR = 1.3; // Vowels the script leaves out are written in Roman Urdu
+const ROMAN_CHARS_PER_TOKEN = 4;
+const UTF8_BYTES_PER_CHAR = 2;      // Arabic-script letters, plus a share of ASCII spaces and digits
+const IMAGE_PAGE_TOKENS = 1100;     // A page scan at the default media resolution
+const SCANNED_PAGE_CHARS = 1800;    // Typical book page when no text layer can be measured
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens
+});
+
+/** List price for a model, or null when it is unknown (local and self-hosted models). */
+export const pricingFor = (model: string | undefined): ModelPricing | null => {
+  if (!model) return null;
+  const name = model.toLowerCase();
+  return PRICES.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+};
+
+export const estimateCost = (usage: TokenUsage, pricing: ModelPricing | null): number | null =>
+  pricing ? (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1e6 : null;
+
+export const formatCost = (cost: number | null) =>
+  cost === null ? 'n/a' : cost < 0.01 && cost > 0 ? '<$0.01' : `$${cost.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : String(tokens);
+
+const textTokens = (urduChars: number): TokenUsage => ({
+  inputTokens: Math.ceil(urduChars / URDU_CHARS_PER_TOKEN),
+  outputTokens: Math.ceil((urduChars * ROMAN_CHARS_PER_URDU_CHAR) / ROMAN_CHARS_PER_TOKEN)
+});
+
+/** Dry-run estimate for a plain-text file sent in chunks of `chunkBytes`. */
+export const estimateTextRun = (bytes: number, chunkBytes: number): TokenUsage => {
+  const requests = Math.max(1, Math.ceil(bytes / chunkBytes));
+  const usage = textTokens(bytes / UTF8_BYTES_PER_CHAR);
+  return { ...usage, inputTokens: usage.inputTokens + requests * PROMPT_TOKENS };
+};
+
+/** What a few sampled pages looked like, to extrapolate a paged document from. */
+export interface PageSample {
+  pages: number;      // Pages sampled
+  textPages: number;  // Pages that go out to the model as text
+  imagePages: number; // Pages that go out as scans
+  chars: number;      // Characters in the text layers that could be read, to size every page
+  charPages: number;
+}
+
+/** Dry-run estimate for `pages` pages sent `pagesPerRequest` at a time. */
+export const estimatePagedRun = (pages: number, sample: PageSample, pagesPerRequest: number): TokenUsage => {
+  if (!pages || !sample.pages || !(sample.textPages + sample.imagePages)) return EMPTY_USAGE;
+  const charsPerPage = sample.charPages ? sample.chars / sample.charPages : SCANNED_PAGE_CHARS;
+  const textPages = pages * sample.textPages / sample.pages;
+  const imagePages = pages * sample.imagePages / sample.pages;
+  const text = textTokens(textPages * charsPerPage);
+  const scans = textTokens(imagePages * charsPerPage);
+  const requests = Math.ceil(pages / Math.max(1, pagesPerRequest));
+  return {
+    inputTokens: Math.ceil(text.inputTokens + imagePages * IMAGE_PAGE_TOKENS + requests * PROMPT_TOKENS),
+    outputTokens: text.outputTokens + scans.outputTokens
+  };
+};
+
+/** Dry-run estimate for a single photographed page. */
+export const estimateImageRun = (): TokenUsage => ({
+  inputTokens: IMAGE_PAGE_TOKENS + PROMPT_TOKENS,
+  outputTokens: textTokens(SCANNED_PAGE_CHARS).outputTokens
+});
+
+/** Spending cap in USD, or null when none is set. */
+export const loadBudget = (): number | null => {
+  const raw = parseFloat(localStorage.getItem(BUDGET_KEY) ?? '');
+  return raw > 0 ? raw : null;
+};
+
+export const saveBudget = (budget: number | null) => {
+  if (budget) localStorage.setItem(BUDGET_KEY, String(budget));
+  else localStorage.removeItem(BUDGET_KEY);
+};
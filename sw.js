@@ -1,22 +1,73 @@
+// Service worker for the installed app. The production build prepends
+// `self.__PRECACHE = { version, files }`: every bundled file, the pdf.js worker, character maps
+// and standard fonts, and a version hashed from their contents (see vite.config.ts). Without it,
+// as under `vite dev`, nothing is cached and every request goes to the network.
+const PRECACHE = self.__PRECACHE ?? { version: null, files: [] };
+const CACHE_PREFIX = 'u2r-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE.version}`;
+const CDN_CACHE = `${CACHE_PREFIX}cdn-${PRECACHE.version}`;
 
-const CACHE_NAME = 'u2r-v1';
-const ASSETS = [
-  './',
-  './index.html',
+// Styles, icon fonts and the app icon the page loads from CDNs. A CDN that cannot be reached at
+// install time is fetched again at run time instead of failing the install.
+const CDN_ASSETS = [
   'https://cdn.tailwindcss.com',
-  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/css/all.min.css'
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/css/all.min.css',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-solid-900.woff2',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-regular-400.woff2',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-brands-400.woff2',
+  'https://cdn-icons-png.flaticon.com/512/2900/2900215.png'
 ];
+const CDN_DESTINATIONS = ['script', 'style', 'font', 'image'];
+
+const shellUrl = (file) => new URL(file, self.registration.scope).href;
 
 self.addEventListener('install', (event) => {
+  if (!PRECACHE.version) return;
+  event.waitUntil(Promise.all([
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE.files.map((file) => new Request(shellUrl(file), { cache: 'reload' })))),
+    caches.open(CDN_CACHE).then((cache) => Promise.all(CDN_ASSETS.map((url) =>
+      cache.add(url).catch((err) => console.warn('Not precached:', url, err))
+    )))
+  ]));
+  // A new version waits until the page accepts the update prompt (see the message handler).
+});
+
+// Caches from earlier versions, including the original fixed `u2r-v1`, are dropped once this
+// version takes over.
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, CDN_CACHE];
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name.startsWith(CACHE_PREFIX) && !current.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
   );
 });
 
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromCache = (cacheName, request) => caches.open(cacheName).then((cache) => cache.match(request));
+
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
-    })
-  );
+  const { request } = event;
+  if (request.method !== 'GET' || !PRECACHE.version) return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // Every navigation gets the app shell, including share-target links with a query string.
+    const key = request.mode === 'navigate' ? shellUrl('index.html') : request;
+    event.respondWith(fromCache(SHELL_CACHE, key).then((cached) => cached ?? fetch(request)));
+    return;
+  }
+
+  // Model APIs and anything else not rendered by the page always go to the network.
+  if (!CDN_DESTINATIONS.includes(request.destination)) return;
+  event.respondWith(fromCache(CDN_CACHE, request).then((cached) => cached ?? fetch(request).then((response) => {
+    if (response.ok || response.type === 'opaque') {
+      const copy = response.clone();
+      caches.open(CDN_CACHE).then((cache) => cache.put(request, copy));
+    }
+    return response;
+  })));
 });
@@ -6,22 +6,80 @@ export interface ConversionStats {
   estimatedTimeRemaining: number | null;
   status: 'idle' | 'processing' | 'completed' | 'error' | 'paused';
   chunksProcessed: number;
+  failedAttempts: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
 export interface ChunkResult {
   original: string;
   converted: string;
+  page?: number;
+  usage?: TokenUsage; // Tokens for the batch this came from, shown on its first item
+}
+
+export type BatchSource =
+  | { kind: 'pdf'; startPage: number; endPage: number } // Any PagedDocument: PDF or TIFF pages, or DOCX/EPUB/HTML/RTF sections
+  | { kind: 'txt'; startByte: number; endByte: number }
+  | { kind: 'image' };
+
+export interface SkippedBatch {
+  chunkIndex: number; // First output slot reserved for this batch (PDF batches own one slot per page)
+  source: BatchSource;
+  error: string;
+}
+
+// A problem the quality checks found in a batch's output after its automatic re-request.
+export interface QualityIssue {
+  kind: 'residual-script' | 'truncated' | 'too-long' | 'preamble' | 'repetition';
+  detail: string;
+}
+
+export interface QualityFlag {
+  chunkIndex: number; // First output slot of the batch; its chunks are flagged in the review editor
+  source: BatchSource;
+  issues: QualityIssue[];
+}
+
+export type ReviewStatus = 'pending' | 'accepted' | 'flagged';
+
+export interface ReviewItem {
+  index: number;
+  text: string;
+  edited?: string;
+  review: ReviewStatus;
+  page?: number;
+  source?: BatchSource;
+  original?: string;  // Full source text, when the chunk came from a text layer
+  thumbnail?: string; // JPEG data URL, when the chunk came from an image/OCR scan
 }
 
 export interface ResumeMetadata {
   fileName: string;
   fileSize: number;
+  fileHash: string;
   lastProcessedIndex: number; // Page number for PDF, offset for TXT
   accumulatedContent: string[];
-  useOCR: boolean;
+  accumulatedPages?: (number | null)[]; // Source page per chunk (PDF), parallel to accumulatedContent
+  ocrMode?: OcrMode;
+  useOCR?: boolean; // Checkpoints from before OCR modes: true meant every page was scanned
   totalItems: number;
   rangeStart?: number;
   rangeEnd?: number;
+  skipped?: SkippedBatch[];
+  flagged?: QualityFlag[];
+  scheme?: OutputScheme;
+  language?: SourceLanguage; // Source language picked or detected for the run
+  glossaryCounts?: Record<string, number>; // Glossary replacements made so far, for the export report
+  routes?: Record<number, PageRouting>; // How each page was read, keyed by page number
+  preprocess?: PreprocessSettings;
+  usage?: TokenUsage; // Tokens billed so far, failed attempts included
+  updatedAt: number;
 }
 
 export interface AppState {
@@ -30,4 +88,82 @@ export interface AppState {
   preview: ChunkResult[];
   error: string | null;
   resumeData: ResumeMetadata | null;
+  skipped: SkippedBatch[];
+  flagged: QualityFlag[];
+  routes: Record<number, PageRouting>;
+}
+
+// How PDF pages are read: text layer only, per-page detection, or every page as a scan.
+export type OcrMode = 'off' | 'auto' | 'always';
+
+// Image clean-up before OCR uploads; see services/imagePreprocess.
+export interface PreprocessSettings {
+  targetDpi: number;     // PDF render resolution; photos are scaled down to match a page at this DPI
+  grayscale: boolean;
+  binarize: boolean;     // Otsu threshold to pure black and white
+  deskew: boolean;
+  cropMargins: boolean;
+  splitSpreads: boolean; // Cut landscape two-page scans at the gutter
+  maxRequestKB: number;  // Upload cap per request, shared by the images in a batch
+}
+
+export type PageRoute = 'text' | 'ocr' | 'empty';
+
+export interface PageRouting {
+  route: PageRoute;
+  reason?: string; // Why the page was scanned or yielded nothing
+}
+
+export type OutputScheme = 'roman' | 'academic' | 'chat' | 'devanagari' | 'urdu';
+
+// Script the input is written in; every scheme converts from one of these.
+export type SourceScript = 'arabic' | 'latin';
+
+// Perso-Arabic-script languages read by the arabic-source schemes; see services/languages.
+export type SourceLanguage = 'urdu' | 'punjabi' | 'sindhi' | 'pashto' | 'kashmiri' | 'saraiki';
+
+export interface GlossaryEntry {
+  source: string;      // Urdu term as it appears in the input
+  target: string;      // Preferred Roman spelling
+  variants?: string[]; // Roman spellings to rewrite to `target`, e.g. "Mohammad"
+}
+
+export type ProviderKind = 'gemini' | 'openai';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  endpoint: string; // Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey: string; // For Gemini behind a proxy, the user's proxy token
+  proxyUrl: string; // Key-holding Gemini proxy (server/); blank talks to Gemini directly
+}
+
+export type ExportFormat = 'docx' | 'pdf' | 'epub' | 'md' | 'txt' | 'bilingual-docx' | 'bilingual-html';
+
+export type JobStatus = 'pending' | 'running' | 'paused' | 'done' | 'failed';
+
+// One file in the batch queue. The file itself and its output live in the queue store.
+export interface QueueJob {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  ocrMode: OcrMode;
+  preprocess: PreprocessSettings;
+  rangeStart?: number;
+  rangeEnd?: number;
+  format: ExportFormat;
+  status: JobStatus;
+  progress: number; // 0..1
+  error?: string;
+  outputName?: string;
+  addedAt: number;
+}
+
+// One conversion made in the quick-convert pad, kept in the local history.
+export interface QuickConversion {
+  id: string;
+  source: string;
+  output: string;
+  scheme: OutputScheme;
+  createdAt: number;
 }
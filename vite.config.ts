@@ -1,18 +1,73 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+const PDFJS_DIR = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+const PDFJS_ASSETS = ['cmaps', 'standard_fonts']; // Served under pdfjs/; see setPdfAssetBase
+
+// Offline support for the installed app. The build copies the pdf.js character maps and standard
+// fonts and the web manifest next to index.html, then writes sw.js with the list of every output
+// file and a version hashed from their contents, so each deploy gets fresh caches. The dev server
+// serves the pdf.js folders straight from node_modules.
+const offlineApp = (): Plugin => ({
+  name: 'u2r-offline-app',
+  apply: (_config, { isSsrBuild }) => !isSsrBuild,
+  configureServer(server) {
+    server.middlewares.use('/pdfjs', (req, res, next) => {
+      const file = path.join(PDFJS_DIR, decodeURIComponent((req.url ?? '').split('?')[0]));
+      const allowed = PDFJS_ASSETS.some(dir => file.startsWith(path.join(PDFJS_DIR, dir) + path.sep));
+      if (!allowed || !fs.existsSync(file)) return next();
+      res.end(fs.readFileSync(file));
+    });
+  },
+  generateBundle: {
+    order: 'post',
+    handler(_options, bundle) {
+      for (const dir of PDFJS_ASSETS) {
+        for (const name of fs.readdirSync(path.join(PDFJS_DIR, dir))) {
+          this.emitFile({ type: 'asset', fileName: `pdfjs/${dir}/${name}`, source: fs.readFileSync(path.join(PDFJS_DIR, dir, name)) });
+        }
+      }
+      this.emitFile({ type: 'asset', fileName: 'manifest.json', source: fs.readFileSync(path.resolve(__dirname, 'manifest.json')) });
+      const files = Object.keys(bundle).filter(name => !name.endsWith('.map')).sort();
+      const hash = createHash('sha256');
+      for (const name of files) {
+        const output = bundle[name];
+        hash.update(name).update(output.type === 'chunk' ? output.code : output.source);
+      }
+      const precache = { version: hash.digest('hex').slice(0, 12), files };
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `self.__PRECACHE = ${JSON.stringify(precache)};\n${fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')}`
+      });
+    }
+  }
+});
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: [react(), offlineApp()],
+      // pdf.js 4 uses top-level await, and the document worker (a module worker) bundles it.
+      build: {
+        target: 'es2022',
+      },
+      worker: {
+        format: 'es',
+      },
+      // The CLI and proxy builds read the key from the environment at run time. With
+      // GEMINI_PROXY_URL set, the app goes through the proxy and no key is put in the bundle.
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_PROXY_URL ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_PROXY_URL ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL ?? '')
       },
       resolve: {
         alias: {